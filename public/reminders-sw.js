@@ -0,0 +1,124 @@
+// Breeding reminders, imported into the Workbox service worker (see vite.config.ts).
+// The app keeps the "reminders" store in IndexedDB up to date
+// (src/services/reminderService.ts); this shows the due ones from periodic
+// background checks and handles the Snooze / Done buttons on notifications.
+
+const DB_NAME = 'milktrack'
+const STORE = 'reminders'
+const SYNC_TAG = 'milktrack-reminders'
+const UPDATED_MESSAGE = 'reminders-updated'
+
+const toDay = (date) => {
+  const pad = (n) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+const addDays = (date, days) => {
+  const next = new Date(date)
+  next.setDate(next.getDate() + days)
+  return next
+}
+
+// Opens the database at whatever version the app created it with
+const openDB = () =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME)
+    request.onsuccess = () => {
+      const db = request.result
+      // Never hold up the app upgrading the database
+      db.onversionchange = () => db.close()
+      resolve(db)
+    }
+    request.onerror = () => reject(request.error)
+  })
+
+// Each call has its own connection, closed once the transaction is over
+const withStore = async (mode, operation) => {
+  const db = await openDB()
+  // The app hasn't upgraded the database yet, so there is nothing to remind about
+  if (!db.objectStoreNames.contains(STORE)) {
+    db.close()
+    return undefined
+  }
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode)
+    const request = operation(tx.objectStore(STORE))
+    tx.oncomplete = () => {
+      db.close()
+      resolve(request.result)
+    }
+    tx.onerror = () => {
+      db.close()
+      reject(tx.error)
+    }
+    tx.onabort = () => {
+      db.close()
+      reject(tx.error)
+    }
+  })
+}
+
+const getAll = async () => (await withStore('readonly', (store) => store.getAll())) ?? []
+const get = (id) => withStore('readonly', (store) => store.get(id))
+const put = (reminder) => withStore('readwrite', (store) => store.put(reminder))
+
+// Keep in step with isReminderDue in reminderService.ts
+const isDue = (reminder, day) =>
+  !reminder.done &&
+  reminder.start <= day &&
+  reminder.end >= day &&
+  (!reminder.snoozedUntil || reminder.snoozedUntil <= day)
+
+// The app clears the store on sign out, so everything in it belongs to the signed-in user
+const showDueReminders = async () => {
+  const day = toDay(new Date())
+  const due = (await getAll()).filter((r) => isDue(r, day) && r.notifiedOn !== day)
+  for (const reminder of due) {
+    await self.registration.showNotification(reminder.title, {
+      body: reminder.body,
+      tag: reminder.id,
+      icon: '/pwa-192x192.png',
+      data: { id: reminder.id },
+      actions: [
+        { action: 'snooze', title: 'Snooze 1 day' },
+        { action: 'done', title: 'Done' },
+      ],
+    })
+    await put({ ...reminder, notifiedOn: day })
+  }
+}
+
+const tellClients = async () => {
+  const clients = await self.clients.matchAll({ type: 'window' })
+  clients.forEach((client) => client.postMessage({ type: UPDATED_MESSAGE }))
+}
+
+const handleClick = async (notification, action) => {
+  const reminder = await get(notification.data?.id)
+
+  if (reminder && action === 'done') {
+    await put({ ...reminder, done: true })
+    await tellClients()
+  } else if (reminder && action === 'snooze') {
+    await put({ ...reminder, snoozedUntil: toDay(addDays(new Date(), 1)) })
+    await tellClients()
+  } else {
+    const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+    if (clients.length > 0) {
+      await clients[0].focus()
+    } else {
+      await self.clients.openWindow('/')
+    }
+  }
+}
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(showDueReminders())
+  }
+})
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  event.waitUntil(handleClick(event.notification, event.action))
+})
@@ -1,40 +1,87 @@
-import { useState, useRef } from "react";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { useState, useRef, useEffect } from "react";
 import { Formik, Form, Field } from "formik";
+import { format } from "date-fns";
 import { useAuth } from "./contexts/AuthContext";
 import { Login } from "./components/Login";
 import { Records } from "./components/Records";
 import { AIRecords } from "./components/AIRecords";
-import { saveReceipt } from "./services/receiptService";
+import { Animals } from "./components/Animals";
+import { MilkingLog } from "./components/MilkingLog";
+import { Payments } from "./components/Payments";
+import { Expenses } from "./components/Expenses";
+import { Dashboard } from "./components/Dashboard";
+import { AdminUsers } from "./components/AdminUsers";
+import { Settings } from "./components/Settings";
+import { Outbox } from "./components/Outbox";
+import { ReceiptFields } from "./components/ReceiptFields";
+import { DuplicateReceiptDialog } from "./components/DuplicateReceiptDialog";
+import { BatchReview } from "./components/BatchReview";
+import { WithdrawalBanner } from "./components/WithdrawalBanner";
+import { useBatchQueue, type BatchItem } from "./hooks/useBatchQueue";
+import { getLowConfidenceFields, validateReceipt } from "./lib/receiptValidation";
+import { getSettings } from "./lib/settings";
+import { getWithdrawals } from "./lib/health";
+import { getExtractor, readReceiptImage, type ReceiptExtractor } from "./services/extraction";
+import {
+  parsedDataToReceipt,
+  parseReceiptDate,
+  formatReceiptDate,
+  deriveClr,
+  SHIFT_LABELS,
+  findConflictingReceipts,
+  replaceReceipt,
+  applyReceiptEdits,
+  RECEIPT_FIELD_LABELS,
+  type ParsedData,
+  type Receipt,
+  type ReceiptInput,
+} from "./services/receiptService";
+import { queueReceipt, syncOutbox, getOutboxEntry } from "./services/outboxService";
+import { getUserHealthRecords, type HealthRecord } from "./services/healthRecordService";
 import "./App.css";
 
-interface ParsedData {
-  rawText: string;
-  date?: string;
-  quantity?: string;
-  fat?: string;
-  clr?: string;
-  fatKg?: string;
-  snfKg?: string;
-  baseRate?: string;
-  rate?: string;
-  amount?: string;
-}
-
 function App() {
-  const { user, loading: authLoading, logout } = useAuth();
-  const [currentView, setCurrentView] = useState<"upload" | "records" | "ai-records">(
-    "upload"
-  );
+  const { user, role, loading: authLoading, logout, can } = useAuth();
+  const [currentView, setCurrentView] = useState<
+    "upload" | "records" | "dashboard" | "payments" | "expenses" | "animals" | "milking" | "ai-records" | "admin" | "settings"
+  >("upload");
   const [entryMode, setEntryMode] = useState<"camera" | "manual">("camera");
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [compressedBlob, setCompressedBlob] = useState<Blob | null>(null);
   const [parsedData, setParsedData] = useState<ParsedData | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [processingLabel, setProcessingLabel] = useState("");
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [editValues, setEditValues] = useState<Partial<ParsedData>>({});
+  const [duplicate, setDuplicate] = useState<{
+    receiptData: ReceiptInput;
+    existing: Receipt;
+  } | null>(null);
+  // Treatments with a milk withdrawal period, to warn when a slip's date falls inside one
+  const [healthRecords, setHealthRecords] = useState<HealthRecord[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const savingRef = useRef(false);
+  const batch = useBatchQueue();
+
+  // Replay queued receipts on start-up and whenever connectivity returns
+  useEffect(() => {
+    if (!user) return;
+
+    const sync = () => syncOutbox(user.id);
+    sync();
+    window.addEventListener("online", sync);
+    return () => window.removeEventListener("online", sync);
+  }, [user]);
+
+  // Reloaded on each visit to the upload screen so new treatments count
+  useEffect(() => {
+    if (!user || currentView !== "upload") return;
+
+    getUserHealthRecords(user.id)
+      .then(setHealthRecords)
+      .catch((error) => console.error("Error loading health records:", error));
+  }, [user, currentView]);
 
   // Show loading while checking auth
   if (authLoading) {
@@ -53,176 +100,71 @@ function App() {
     return <Login />;
   }
 
-  const getImageCaptureDate = (file: File): string | null => {
-    // Get file's last modified date as fallback
-    const fileDate = new Date(file.lastModified);
-    const day = String(fileDate.getDate()).padStart(2, "0");
-    const month = String(fileDate.getMonth() + 1).padStart(2, "0");
-    const year = fileDate.getFullYear();
-    return `${day}/${month}/${year}`;
+  // Viewers can't upload, so they land on the records instead
+  const canUpload = can("receipt:create");
+  const canManageUsers = can("profile:manage");
+  const activeView =
+    (currentView === "upload" && !canUpload) || (currentView === "admin" && !canManageUsers)
+      ? "records"
+      : currentView;
+
+  // The reader chosen in Settings, or null (after telling the user) when it can't run here
+  const getReadyExtractor = (): ReceiptExtractor | null => {
+    const extractor = getExtractor(getSettings().extractor);
+    const unavailable = extractor.unavailableReason();
+    if (unavailable) {
+      alert(unavailable);
+      return null;
+    }
+    return extractor;
   };
 
-  const compressImage = (file: File): Promise<Blob> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const img = new Image();
-        img.onload = () => {
-          const canvas = document.createElement("canvas");
-          const ctx = canvas.getContext("2d");
-
-          // Calculate new dimensions (max 1600px width/height while maintaining aspect ratio)
-          let width = img.width;
-          let height = img.height;
-          const maxSize = 1600;
-
-          if (width > height && width > maxSize) {
-            height = (height * maxSize) / width;
-            width = maxSize;
-          } else if (height > maxSize) {
-            width = (width * maxSize) / height;
-            height = maxSize;
-          }
-
-          canvas.width = width;
-          canvas.height = height;
-
-          // Draw and compress
-          ctx?.drawImage(img, 0, 0, width, height);
-          canvas.toBlob(
-            (blob) => {
-              if (blob) resolve(blob);
-              else reject(new Error("Compression failed"));
-            },
-            "image/jpeg",
-            0.85 // 85% quality - good balance between quality and size
-          );
-        };
-        img.onerror = reject;
-        img.src = e.target?.result as string;
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
+  const handleAddBatchFiles = (files: File[]) => {
+    const extractor = getReadyExtractor();
+    if (extractor && files.length > 0) {
+      batch.addFiles(files, extractor);
+    }
   };
 
-  const convertImageToBase64 = (
-    file: File
-  ): Promise<{ base64: string; mimeType: string }> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const result = e.target?.result as string;
-        const base64 = result.split(",")[1];
-        resolve({ base64, mimeType: file.type });
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
+  const handleRetryBatchItem = (item: BatchItem) => {
+    const extractor = getReadyExtractor();
+    if (extractor) {
+      batch.retryItem(item, extractor);
+    }
   };
 
   const handleImageUpload = async (
     event: React.ChangeEvent<HTMLInputElement>
   ) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+    const files = Array.from(event.target.files ?? []);
+    if (files.length === 0) return;
 
-    const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-    if (!apiKey) {
-      alert(
-        "Please add your Gemini API key to .env.local file:\nVITE_GEMINI_API_KEY=your_api_key_here\n\nGet your free API key from: https://makersuite.google.com/app/apikey\n\nThen restart the dev server."
-      );
+    // Several slips at once go to the review queue instead of the single preview
+    if (files.length > 1) {
+      handleAddBatchFiles(files);
+      event.target.value = "";
       return;
     }
 
-    // Process image with Gemini
+    const extractor = getReadyExtractor();
+    if (!extractor) return;
+
     setIsProcessing(true);
+    setProcessingLabel(extractor.label);
     setParsedData(null);
 
     try {
-      // Compress image first
-      const compressed = await compressImage(file);
-      console.log(
-        `Original size: ${(file.size / 1024).toFixed(2)}KB, Compressed size: ${(
-          compressed.size / 1024
-        ).toFixed(2)}KB`
-      );
+      const [file] = files;
+      setSelectedImage(URL.createObjectURL(file));
 
+      const { blob, data } = await readReceiptImage(file, extractor);
       // Store compressed blob for later save
-      setCompressedBlob(compressed);
-
-      // Create image preview from compressed blob
-      const previewUrl = URL.createObjectURL(compressed);
-      setSelectedImage(previewUrl);
-
-      // Convert compressed blob to base64 for Gemini API
-      const compressedFile = new File([compressed], file.name, {
-        type: "image/jpeg",
-      });
-      const { base64, mimeType } = await convertImageToBase64(compressedFile);
-
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
-
-      const prompt = `Please analyze this dairy receipt/slip image and extract the following information in JSON format.
-
-IMPORTANT: In the upper section of the receipt, the top 4 items are usually:
-1. QTY (Quantity in liters)
-2. FAT (Fat percentage)
-3. CLR (Corrected Lactometer Reading value)
-4. RATE (Base rate - this is usually shown in PAISE. Convert it to RUPEES by dividing by 100)
-
-The "Avg. Rate" shown below these 4 items is the ACTUAL calculated rate that should be used.
-
-Extract these fields:
-{
-  "date": "date in DD/MM/YYYY format",
-  "quantity": "quantity in liters from QTY field (just the number)",
-  "fat": "fat percentage from FAT field (just the number)",
-  "clr": "CLR value (just the number)",
-  "fatKg": "fat in kg if shown (just the number)",
-  "snfKg": "SNF in kg if shown (just the number)",
-  "baseRate": "the base RATE from the top section converted to RUPEES (e.g., if it shows 70.50 paise, return 0.705 or 0.71)",
-  "rate": "the Avg. Rate or calculated rate shown below in rupees (just the number)",
-  "amount": "total amount in rupees (just the number)"
-}
-
-Only include fields that are clearly visible in the image. Return ONLY the JSON object, no additional text.`;
-
-      const result = await model.generateContent([
-        prompt,
-        {
-          inlineData: {
-            data: base64,
-            mimeType: mimeType,
-          },
-        },
-      ]);
-
-      const response = result.response;
-      const responseText = response.text();
-      console.log("Gemini Response:", responseText);
-
-      // Extract JSON from response
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const extractedData = JSON.parse(jsonMatch[0]);
-
-        // Get image capture date as fallback
-        const captureDate = getImageCaptureDate(file);
-
-        setParsedData({
-          rawText: responseText,
-          date: extractedData.date || captureDate, // Use capture date if not found in receipt
-          ...extractedData,
-        });
-      } else {
-        throw new Error("Could not parse response from Gemini");
-      }
+      setCompressedBlob(blob);
+      setParsedData(data);
     } catch (error) {
       console.error("Processing Error:", error);
       alert(
-        "Failed to process image. Please check your API key and try again."
+        `Failed to process image with ${extractor.label}. Please try again or choose another reader in Settings.`
       );
     } finally {
       setIsProcessing(false);
@@ -239,6 +181,12 @@ Only include fields that are clearly visible in the image. Return ONLY the JSON
     }
   };
 
+  // Animals whose milk was withheld on the slip's date
+  const getReceiptWithdrawals = (data: Partial<ParsedData> | null) => {
+    const date = parseReceiptDate(data?.date);
+    return date ? getWithdrawals(healthRecords, format(date, "yyyy-MM-dd")) : [];
+  };
+
   const handleCameraClick = () => {
     fileInputRef.current?.click();
   };
@@ -249,19 +197,7 @@ Only include fields that are clearly visible in the image. Return ONLY the JSON
   };
 
   const handleSaveEdit = () => {
-    const updatedData: ParsedData = {
-      rawText: parsedData?.rawText || 'Manual edit',
-      date: editValues.date || '',
-      quantity: editValues.quantity || '',
-      fat: editValues.fat || '',
-      clr: editValues.clr || '',
-      fatKg: editValues.fatKg,
-      snfKg: editValues.snfKg,
-      baseRate: editValues.baseRate,
-      rate: editValues.rate || '',
-      amount: editValues.amount || '',
-    };
-    setParsedData(updatedData);
+    setParsedData(applyReceiptEdits(parsedData, editValues));
     setIsEditing(false);
   };
 
@@ -269,32 +205,110 @@ Only include fields that are clearly visible in the image. Return ONLY the JSON
     setEditValues(prev => ({ ...prev, [field]: value }));
   };
 
+  // Queues the receipt in the outbox and tries to upload it straight away
+  const queueAndSync = async (receiptData: ReceiptInput) => {
+    if (!user) return;
+
+    // Every receipt goes through the outbox so nothing is lost offline;
+    // pass the image blob only if it exists (from camera mode)
+    const entry = await queueReceipt(
+      user.id,
+      receiptData,
+      compressedBlob || undefined
+    );
+    handleReset();
+
+    if (!navigator.onLine) {
+      alert("You're offline. The receipt is saved on this device and will upload automatically.");
+      return;
+    }
+
+    await syncOutbox(user.id);
+    const synced = await getOutboxEntry(entry.clientId);
+    if (synced?.status === "synced") {
+      alert("Receipt saved successfully!");
+    } else {
+      alert("Couldn't upload the receipt right now. It's kept on this device and will retry automatically.");
+    }
+  };
+
+  const reportSaveError = (error: unknown) => {
+    console.error("Error saving receipt:", error);
+    alert(
+      error instanceof Error
+        ? `Failed to save receipt: ${error.message}`
+        : "Failed to save receipt. Please try again."
+    );
+  };
+
   const handleSaveReceipt = async () => {
-    if (!user || !parsedData) return;
+    // The ref catches a double tap before the disabled state has rendered
+    if (!user || !parsedData || savingRef.current) return;
+
+    const issues = validateReceipt(parsedData);
+    const unsure = getLowConfidenceFields(parsedData);
+    const withheld = getReceiptWithdrawals(parsedData);
+    const warnings = [
+      ...issues.map((issue) => `• ${issue.message}`),
+      ...(unsure.length > 0 ? [`• Not read clearly: ${unsure.map((field) => RECEIPT_FIELD_LABELS[field]).join(", ")}`] : []),
+      ...(withheld.length > 0 ? [`• Milk withheld that day from: ${withheld.map((w) => w.animal.tag).join(", ")}`] : []),
+    ];
+    if (
+      warnings.length > 0 &&
+      !confirm(`Please check these values:\n\n${warnings.join("\n")}\n\nSave anyway?`)
+    ) {
+      return;
+    }
 
+    savingRef.current = true;
     setIsSaving(true);
     try {
-      const receiptData = {
-        date: parsedData.date || "",
-        quantity: parsedData.quantity || "",
-        fat: parsedData.fat || "",
-        clr: parsedData.clr || "",
-        fat_kg: parsedData.fatKg,
-        snf_kg: parsedData.snfKg,
-        base_rate: parsedData.baseRate || "",
-        rate: parsedData.rate || "",
-        amount: parsedData.amount || "",
-        image_url: "",
-      };
-
-      // Pass the image blob only if it exists (from camera mode)
-      await saveReceipt(user.id, receiptData, compressedBlob || undefined);
-      alert("Receipt saved successfully!");
-      handleReset();
+      const receiptData = parsedDataToReceipt(parsedData, entryMode);
+
+      // Duplicates can only be checked online; offline saves go straight to the outbox
+      if (navigator.onLine) {
+        const conflicts = await findConflictingReceipts(
+          user.id,
+          receiptData.date,
+          receiptData.shift
+        ).catch(() => []);
+        if (conflicts.length > 0) {
+          setDuplicate({ receiptData, existing: conflicts[0] });
+          return;
+        }
+      }
+
+      await queueAndSync(receiptData);
+    } catch (error) {
+      reportSaveError(error);
+    } finally {
+      savingRef.current = false;
+      setIsSaving(false);
+    }
+  };
+
+  const handleResolveDuplicate = async (resolution: "replace" | "keep-both") => {
+    if (!duplicate || savingRef.current) return;
+
+    savingRef.current = true;
+    setIsSaving(true);
+    try {
+      if (resolution === "replace") {
+        await replaceReceipt(
+          duplicate.existing,
+          duplicate.receiptData,
+          compressedBlob || undefined
+        );
+        handleReset();
+        alert("Existing receipt replaced.");
+      } else {
+        await queueAndSync(duplicate.receiptData);
+      }
+      setDuplicate(null);
     } catch (error) {
-      console.error("Error saving receipt:", error);
-      alert("Failed to save receipt. Please try again.");
+      reportSaveError(error);
     } finally {
+      savingRef.current = false;
       setIsSaving(false);
     }
   };
@@ -309,6 +323,7 @@ Only include fields that are clearly visible in the image. Return ONLY the JSON
             {user && (
               <p className="user-info">
                 {user.user_metadata?.full_name || user.email}
+                {role && <span className="role-badge">{role}</span>}
               </p>
             )}
           </div>
@@ -317,35 +332,102 @@ Only include fields that are clearly visible in the image. Return ONLY the JSON
           </button>
         </div>
         <nav className="nav-tabs">
+          {canUpload && (
+            <button
+              className={`nav-tab ${activeView === "upload" ? "active" : ""}`}
+              onClick={() => setCurrentView("upload")}
+            >
+              Upload Receipt
+            </button>
+          )}
           <button
-            className={`nav-tab ${currentView === "upload" ? "active" : ""}`}
-            onClick={() => setCurrentView("upload")}
+            className={`nav-tab ${activeView === "records" ? "active" : ""}`}
+            onClick={() => setCurrentView("records")}
           >
-            Upload Receipt
+            Milk Records
           </button>
           <button
-            className={`nav-tab ${currentView === "records" ? "active" : ""}`}
-            onClick={() => setCurrentView("records")}
+            className={`nav-tab ${activeView === "dashboard" ? "active" : ""}`}
+            onClick={() => setCurrentView("dashboard")}
           >
-            Milk Records
+            Dashboard
           </button>
           <button
-            className={`nav-tab ${currentView === "ai-records" ? "active" : ""}`}
+            className={`nav-tab ${activeView === "payments" ? "active" : ""}`}
+            onClick={() => setCurrentView("payments")}
+          >
+            Payments
+          </button>
+          <button
+            className={`nav-tab ${activeView === "expenses" ? "active" : ""}`}
+            onClick={() => setCurrentView("expenses")}
+          >
+            Expenses
+          </button>
+          <button
+            className={`nav-tab ${activeView === "animals" ? "active" : ""}`}
+            onClick={() => setCurrentView("animals")}
+          >
+            Animals
+          </button>
+          <button
+            className={`nav-tab ${activeView === "milking" ? "active" : ""}`}
+            onClick={() => setCurrentView("milking")}
+          >
+            Milking
+          </button>
+          <button
+            className={`nav-tab ${activeView === "ai-records" ? "active" : ""}`}
             onClick={() => setCurrentView("ai-records")}
           >
             AI Records
           </button>
+          {canManageUsers && (
+            <button
+              className={`nav-tab ${activeView === "admin" ? "active" : ""}`}
+              onClick={() => setCurrentView("admin")}
+            >
+              Admin
+            </button>
+          )}
+          <button
+            className={`nav-tab ${activeView === "settings" ? "active" : ""}`}
+            onClick={() => setCurrentView("settings")}
+          >
+            Settings
+          </button>
         </nav>
       </header>
 
       <main className="main-content">
-        {currentView === "records" ? (
+        {activeView === "records" ? (
           <Records />
-        ) : currentView === "ai-records" ? (
+        ) : activeView === "dashboard" ? (
+          <Dashboard />
+        ) : activeView === "payments" ? (
+          <Payments />
+        ) : activeView === "expenses" ? (
+          <Expenses />
+        ) : activeView === "animals" ? (
+          <Animals />
+        ) : activeView === "milking" ? (
+          <MilkingLog />
+        ) : activeView === "ai-records" ? (
           <AIRecords />
+        ) : activeView === "admin" ? (
+          <AdminUsers />
+        ) : activeView === "settings" ? (
+          <Settings />
         ) : (
           <>
-            {!selectedImage && !parsedData ? (
+            {batch.items.length > 0 ? (
+              <BatchReview
+                queue={batch}
+                onAddFiles={handleAddBatchFiles}
+                onRetry={handleRetryBatchItem}
+                getWithdrawals={getReceiptWithdrawals}
+              />
+            ) : !selectedImage && !parsedData ? (
               <div className="upload-section">
                 <div className="entry-mode-toggle">
                   <button
@@ -381,10 +463,12 @@ Only include fields that are clearly visible in the image. Return ONLY the JSON
                       </svg>
                       <p>Tap to capture or upload</p>
                     </div>
+                    <p className="upload-hint">Pick several photos to review them together</p>
                     <input
                       ref={fileInputRef}
                       type="file"
                       accept="image/*"
+                      multiple
                       onChange={handleImageUpload}
                       className="file-input"
                     />
@@ -395,35 +479,26 @@ Only include fields that are clearly visible in the image. Return ONLY the JSON
                     <Formik
                       initialValues={{
                         date: new Date().toISOString().split("T")[0],
+                        // Morning collection is over by early afternoon
+                        shift: new Date().getHours() < 14 ? "morning" : "evening",
                         quantity: '',
                         fat: '',
-                        snfKg: '',
+                        snf: '',
                         rate: '',
                         amount: ''
                       }}
                       onSubmit={(values) => {
-                        // Calculate CLR from SNF if SNF is provided
-                        const snfValue = values.snfKg || "0";
-                        const fatValue = values.fat || "0";
-                        const clr = (
-                          parseFloat(snfValue) +
-                          0.25 * parseFloat(fatValue)
-                        ).toFixed(2);
-
-                        // Convert date from YYYY-MM-DD to DD/MM/YYYY
-                        let formattedDate = values.date;
-                        if (values.date && values.date.includes("-")) {
-                          const [year, month, day] = values.date.split("-");
-                          formattedDate = `${day}/${month}/${year}`;
-                        }
+                        const date = parseReceiptDate(values.date);
+                        const formattedDate = date ? formatReceiptDate(date) : values.date;
 
                         setParsedData({
                           rawText: "Manual entry",
                           date: formattedDate,
+                          shift: values.shift,
                           quantity: values.quantity,
                           fat: values.fat,
-                          snfKg: values.snfKg,
-                          clr: clr,
+                          // SNF % isn't a slip field; it's kept as the CLR it implies
+                          clr: deriveClr(values.fat, values.snf),
                           rate: values.rate,
                           amount: values.amount,
                         });
@@ -439,6 +514,17 @@ Only include fields that are clearly visible in the image. Return ONLY the JSON
                           />
                         </div>
 
+                        <div className="form-group">
+                          <label>Shift</label>
+                          <Field as="select" name="shift" className="shift-select">
+                            {Object.entries(SHIFT_LABELS).map(([value, label]) => (
+                              <option key={value} value={value}>
+                                {label}
+                              </option>
+                            ))}
+                          </Field>
+                        </div>
+
                         <div className="form-group">
                           <label>Quantity (Liters)</label>
                           <Field
@@ -462,7 +548,7 @@ Only include fields that are clearly visible in the image. Return ONLY the JSON
                         <div className="form-group">
                           <label>SNF %</label>
                           <Field
-                            name="snfKg"
+                            name="snf"
                             type="number"
                             step="any"
                             placeholder="0.0"
@@ -502,7 +588,7 @@ Only include fields that are clearly visible in the image. Return ONLY the JSON
                 {isProcessing && (
                   <div className="processing-indicator">
                     <div className="spinner"></div>
-                    <p>Analyzing image with Gemini AI...</p>
+                    <p>Analyzing image with {processingLabel}...</p>
                   </div>
                 )}
 
@@ -529,164 +615,17 @@ Only include fields that are clearly visible in the image. Return ONLY the JSON
                       )}
                     </div>
 
-                    <div className="data-grid">
-                      <div className="data-item">
-                        <span className="label">Date</span>
-                        {isEditing ? (
-                          <input
-                            type="text"
-                            className="edit-input"
-                            value={editValues.date || ''}
-                            onChange={(e) => handleFieldChange('date', e.target.value)}
-                            placeholder="DD/MM/YYYY"
-                          />
-                        ) : (
-                          <span className="value">{parsedData.date || "-"}</span>
-                        )}
-                      </div>
-
-                      <div className="data-item">
-                        <span className="label">Quantity (Ltr)</span>
-                        {isEditing ? (
-                          <input
-                            type="number"
-                            step="any"
-                            className="edit-input"
-                            value={editValues.quantity || ''}
-                            onChange={(e) => handleFieldChange('quantity', e.target.value)}
-                            placeholder="0.0"
-                          />
-                        ) : (
-                          <span className="value">
-                            {parsedData.quantity ? `${parsedData.quantity} Ltr` : "-"}
-                          </span>
-                        )}
-                      </div>
-
-                      <div className="data-item">
-                        <span className="label">Fat %</span>
-                        {isEditing ? (
-                          <input
-                            type="number"
-                            step="any"
-                            className="edit-input"
-                            value={editValues.fat || ''}
-                            onChange={(e) => handleFieldChange('fat', e.target.value)}
-                            placeholder="0.0"
-                          />
-                        ) : (
-                          <span className="value">
-                            {parsedData.fat ? `${parsedData.fat}%` : "-"}
-                          </span>
-                        )}
-                      </div>
-
-                      <div className="data-item">
-                        <span className="label">CLR</span>
-                        {isEditing ? (
-                          <input
-                            type="number"
-                            step="any"
-                            className="edit-input"
-                            value={editValues.clr || ''}
-                            onChange={(e) => handleFieldChange('clr', e.target.value)}
-                            placeholder="0.0"
-                          />
-                        ) : (
-                          <span className="value">{parsedData.clr || "-"}</span>
-                        )}
-                      </div>
-
-                      <div className="data-item">
-                        <span className="label">Fat Kg</span>
-                        {isEditing ? (
-                          <input
-                            type="number"
-                            step="any"
-                            className="edit-input"
-                            value={editValues.fatKg || ''}
-                            onChange={(e) => handleFieldChange('fatKg', e.target.value)}
-                            placeholder="0.00"
-                          />
-                        ) : (
-                          <span className="value">
-                            {parsedData.fatKg ? `${parsedData.fatKg} kg` : "-"}
-                          </span>
-                        )}
-                      </div>
-
-                      <div className="data-item">
-                        <span className="label">SNF Kg</span>
-                        {isEditing ? (
-                          <input
-                            type="number"
-                            step="any"
-                            className="edit-input"
-                            value={editValues.snfKg || ''}
-                            onChange={(e) => handleFieldChange('snfKg', e.target.value)}
-                            placeholder="0.00"
-                          />
-                        ) : (
-                          <span className="value">
-                            {parsedData.snfKg ? `${parsedData.snfKg} kg` : "-"}
-                          </span>
-                        )}
-                      </div>
-
-                      <div className="data-item">
-                        <span className="label">Base Rate</span>
-                        {isEditing ? (
-                          <input
-                            type="number"
-                            step="any"
-                            className="edit-input"
-                            value={editValues.baseRate || ''}
-                            onChange={(e) => handleFieldChange('baseRate', e.target.value)}
-                            placeholder="0.00"
-                          />
-                        ) : (
-                          <span className="value">
-                            {parsedData.baseRate ? `₹${parsedData.baseRate}` : "-"}
-                          </span>
-                        )}
-                      </div>
-
-                      <div className="data-item">
-                        <span className="label">Avg. Rate</span>
-                        {isEditing ? (
-                          <input
-                            type="number"
-                            step="any"
-                            className="edit-input"
-                            value={editValues.rate || ''}
-                            onChange={(e) => handleFieldChange('rate', e.target.value)}
-                            placeholder="0.0"
-                          />
-                        ) : (
-                          <span className="value">
-                            {parsedData.rate ? `₹${parsedData.rate}` : "-"}
-                          </span>
-                        )}
-                      </div>
-
-                      <div className="data-item highlight">
-                        <span className="label">Total Amount</span>
-                        {isEditing ? (
-                          <input
-                            type="number"
-                            step="any"
-                            className="edit-input"
-                            value={editValues.amount || ''}
-                            onChange={(e) => handleFieldChange('amount', e.target.value)}
-                            placeholder="0"
-                          />
-                        ) : (
-                          <span className="value">
-                            {parsedData.amount ? `₹${parsedData.amount}` : "-"}
-                          </span>
-                        )}
-                      </div>
-                    </div>
+                    <WithdrawalBanner
+                      withdrawals={getReceiptWithdrawals(isEditing ? editValues : parsedData)}
+                      message="This slip's date is inside a milk withdrawal period. Make sure none of this milk was sold:"
+                    />
+
+                    <ReceiptFields
+                      values={isEditing ? editValues : parsedData}
+                      isEditing={isEditing}
+                      onChange={handleFieldChange}
+                      issues={validateReceipt(isEditing ? editValues : parsedData)}
+                    />
                   </div>
                 )}
 
@@ -716,9 +655,20 @@ Only include fields that are clearly visible in the image. Return ONLY the JSON
                 )}
               </div>
             )}
+            <Outbox />
           </>
         )}
       </main>
+
+      {duplicate && (
+        <DuplicateReceiptDialog
+          existing={duplicate.existing}
+          canReplace={can("receipt:update")}
+          isSaving={isSaving}
+          onResolve={handleResolveDuplicate}
+          onCancel={() => setDuplicate(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,48 +1,127 @@
-import { useState, useEffect } from 'react';
-import { Formik, Form, Field } from 'formik';
+import { useState, useEffect, useCallback } from 'react';
+import { Formik, Form, Field, type FormikHelpers } from 'formik';
 import { useAuth } from '../contexts/AuthContext';
 import {
   getUserAIRecords,
   saveAIRecord,
+  editAIRecord,
   deleteAIRecord,
 } from '../services/aiRecordService';
-import type { AIRecord } from '../services/aiRecordService';
+import type { AIRecord, AIRecordInput } from '../services/aiRecordService';
+import { getUserAnimals, isInHerd, type Animal } from '../services/animalService';
+import {
+  BREEDING_STATUS_LABELS,
+  BREEDING_TRANSITIONS,
+  OUTCOME_LABELS,
+  getAttemptNumber,
+  getBreedingAlerts,
+  getBreedingDates,
+  needsRepeat,
+  type BreedingAlert,
+  type BreedingOutcome,
+} from '../lib/breeding';
+import { parseNumber } from '../lib/numbers';
+import { BreedingEventDialog } from './BreedingEventDialog';
+import { ConceptionStats } from './ConceptionStats';
+import { UpcomingTasks } from './UpcomingTasks';
+import { formatDay } from '../lib/dates';
+import './AIRecords.css';
+
+interface AIRecordFormValues {
+  animalId: string;
+  aiDate: string;
+  bull: string;
+  bullBreed: string;
+  strawId: string;
+  technician: string;
+  cost: string;
+  remarks: string;
+}
+
+const toFormValues = (record?: AIRecord): AIRecordFormValues => ({
+  animalId: record?.animal_id ?? '',
+  aiDate: record?.ai_date ?? new Date().toISOString().split('T')[0],
+  bull: record?.bull ?? '',
+  bullBreed: record?.bull_breed ?? '',
+  strawId: record?.straw_id ?? '',
+  technician: record?.technician ?? '',
+  cost: record?.cost?.toString() ?? '',
+  remarks: record?.remarks ?? '',
+});
+
+const toAIRecordInput = (values: AIRecordFormValues): AIRecordInput => ({
+  animal_id: values.animalId,
+  ai_date: values.aiDate,
+  bull: values.bull,
+  bull_breed: values.bullBreed,
+  straw_id: values.strawId,
+  technician: values.technician,
+  cost: parseNumber(values.cost),
+  remarks: values.remarks,
+});
+
+// Distinct values already entered, offered as suggestions while typing
+const distinct = (values: (string | null)[]) =>
+  [...new Set(values.filter((v): v is string => !!v))].sort((a, b) => a.localeCompare(b));
+
+const describeDays = (daysUntil: number) =>
+  daysUntil === 0 ? 'today' : daysUntil > 0 ? `in ${daysUntil} days` : `${-daysUntil} days ago`;
 
 export const AIRecords = () => {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
+  const canCreate = can('ai-record:create');
+  const canUpdate = can('ai-record:update');
+  const canDelete = can('ai-record:delete');
   const [records, setRecords] = useState<AIRecord[]>([]);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [animals, setAnimals] = useState<Animal[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
+  // The record being corrected; the form adds a new one when null
+  const [editing, setEditing] = useState<AIRecord | null>(null);
+  const [bullFilter, setBullFilter] = useState('');
+  const [event, setEvent] = useState<{ record: AIRecord; action: BreedingOutcome | 'repeat' } | null>(null);
 
-  useEffect(() => {
-    if (user) {
-      loadRecords();
-    }
-  }, [user]);
-
-  const loadRecords = async () => {
+  const loadRecords = useCallback(async () => {
     if (!user) return;
 
     try {
       setLoading(true);
-      const data = await getUserAIRecords(user.id);
+      const [data, herd] = await Promise.all([
+        getUserAIRecords(user.id),
+        getUserAnimals(user.id),
+      ]);
       setRecords(data);
+      setAnimals(herd);
+      setLoadFailed(false);
     } catch (error) {
       console.error('Error loading AI records:', error);
+      setLoadFailed(true);
       alert('Failed to load AI records');
     } finally {
       setLoading(false);
     }
-  };
+  }, [user]);
 
-  const handleSubmit = async (values: { animalTag: string; aiDate: string }, { resetForm }: any) => {
+  useEffect(() => {
+    loadRecords();
+  }, [loadRecords]);
+
+  const handleSubmit = async (
+    values: AIRecordFormValues,
+    { resetForm }: FormikHelpers<AIRecordFormValues>
+  ) => {
     if (!user) return;
 
     try {
-      await saveAIRecord(user.id, values.animalTag, values.aiDate);
-      alert('AI Record saved successfully!');
+      if (editing) {
+        await editAIRecord(editing.id!, toAIRecordInput(values));
+      } else {
+        await saveAIRecord(user.id, toAIRecordInput(values));
+        alert('AI Record saved successfully!');
+      }
       resetForm();
-      setShowForm(false);
+      closeForm();
       loadRecords();
     } catch (error) {
       console.error('Error saving AI record:', error);
@@ -50,6 +129,17 @@ export const AIRecords = () => {
     }
   };
 
+  const openEdit = (record: AIRecord) => {
+    setEditing(record);
+    setShowForm(true);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const closeForm = () => {
+    setEditing(null);
+    setShowForm(false);
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm('Are you sure you want to delete this record?')) return;
 
@@ -72,37 +162,55 @@ export const AIRecords = () => {
     );
   }
 
+  const bulls = distinct(records.map((r) => r.bull));
+  const technicians = distinct(records.map((r) => r.technician));
+  const shown = bullFilter ? records.filter((r) => r.bull === bullFilter) : records;
+  // An animal that has left the herd still shows on its own record while editing
+  const animalOptions = animals.filter((a) => isInHerd(a) || a.id === editing?.animal_id);
+
+  const alerts = getBreedingAlerts(records, new Date());
+  const alertLists: { title: string; hint: string; items: BreedingAlert[] }[] = [
+    { title: '🔥 Watch for heat', hint: 'Day 21 after AI', items: alerts.watchForHeat },
+    { title: '🩺 Due for PD', hint: 'PD due', items: alerts.dueForPd },
+    { title: '🐄 Calving soon', hint: 'Expected', items: alerts.calvingSoon },
+  ];
+
   return (
     <div className="records-container">
       <div className="records-header">
         <h2>AI Records</h2>
-        <button
-          className="add-button"
-          onClick={() => setShowForm(!showForm)}
-        >
-          {showForm ? 'Cancel' : '+ Add Record'}
-        </button>
+        {canCreate && (
+          <button
+            className="add-button"
+            onClick={() => (showForm ? closeForm() : setShowForm(true))}
+          >
+            {showForm ? 'Cancel' : '+ Add Record'}
+          </button>
+        )}
       </div>
 
-      {showForm && (
+      {(canCreate || editing) && showForm && (
         <div className="ai-form-container">
-          <h3>Add AI Record</h3>
-          <Formik
-            initialValues={{
-              animalTag: '',
-              aiDate: new Date().toISOString().split('T')[0],
-            }}
+          <h3>{editing ? `Edit AI Record · ${editing.animal.tag}` : 'Add AI Record'}</h3>
+          <Formik<AIRecordFormValues>
+            key={editing?.id ?? 'new'}
+            initialValues={toFormValues(editing ?? undefined)}
             onSubmit={handleSubmit}
           >
             <Form className="ai-form">
               <div className="form-group">
-                <label>Animal Tag Number</label>
-                <Field
-                  name="animalTag"
-                  type="text"
-                  placeholder="e.g., A001, COW-123"
-                  required
-                />
+                <label>Animal</label>
+                <Field as="select" name="animalId" required>
+                  <option value="">Select an animal</option>
+                  {animalOptions.map((animal) => (
+                    <option key={animal.id} value={animal.id}>
+                      {animal.tag}{animal.name ? ` · ${animal.name}` : ''}
+                    </option>
+                  ))}
+                </Field>
+                {animals.length === 0 && (
+                  <span className="form-hint">Add your animals in the Animals tab first</span>
+                )}
               </div>
 
               <div className="form-group">
@@ -114,55 +222,245 @@ export const AIRecords = () => {
                 />
               </div>
 
+              <div className="form-group">
+                <label>Bull</label>
+                <Field name="bull" type="text" list="ai-bulls" placeholder="Bull name or code" />
+                <datalist id="ai-bulls">
+                  {bulls.map((bull) => (
+                    <option key={bull} value={bull} />
+                  ))}
+                </datalist>
+              </div>
+
+              <div className="form-group">
+                <label>Bull Breed</label>
+                <Field name="bullBreed" type="text" placeholder="e.g., HF, Jersey, Gir" />
+              </div>
+
+              <div className="form-group">
+                <label>Semen Straw ID</label>
+                <Field name="strawId" type="text" placeholder="Printed on the straw" />
+              </div>
+
+              <div className="form-group">
+                <label>Technician</label>
+                <Field name="technician" type="text" list="ai-technicians" placeholder="Who did the AI" />
+                <datalist id="ai-technicians">
+                  {technicians.map((technician) => (
+                    <option key={technician} value={technician} />
+                  ))}
+                </datalist>
+              </div>
+
+              <div className="form-group">
+                <label>Cost (₹)</label>
+                <Field name="cost" type="number" min="0" step="any" placeholder="Optional" />
+              </div>
+
+              <div className="form-group">
+                <label>Remarks</label>
+                <Field name="remarks" as="textarea" rows={2} placeholder="Optional" />
+              </div>
+
               <button type="submit" className="submit-button">
-                Save Record
+                {editing ? 'Save Changes' : 'Save Record'}
               </button>
+              {editing && (
+                <button type="button" className="reset-button" onClick={closeForm}>
+                  Cancel
+                </button>
+              )}
             </Form>
           </Formik>
         </div>
       )}
 
+      <UpcomingTasks records={loadFailed ? null : records} />
+
+      {alertLists.some((list) => list.items.length > 0) && (
+        <div className="breeding-alerts">
+          {alertLists.filter((list) => list.items.length > 0).map((list) => (
+            <section key={list.title} className="breeding-alert-list">
+              <h3>{list.title}</h3>
+              <ul>
+                {list.items.map(({ record, date, daysUntil }) => (
+                  <li key={record.id}>
+                    <span className="breeding-alert-tag">{record.animal.tag}</span>
+                    <span className={daysUntil < 0 ? 'overdue' : undefined}>
+                      {list.hint} {formatDay(date)} ({describeDays(daysUntil)})
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+      )}
+
+      <ConceptionStats records={records} />
+
+      {bulls.length > 0 && (
+        <div className="ai-filter">
+          <label htmlFor="ai-bull-filter">Bull</label>
+          <select
+            id="ai-bull-filter"
+            value={bullFilter}
+            onChange={(e) => setBullFilter(e.target.value)}
+          >
+            <option value="">All bulls</option>
+            {bulls.map((bull) => (
+              <option key={bull} value={bull}>
+                {bull}
+              </option>
+            ))}
+          </select>
+          {bullFilter && (
+            <span className="form-hint">
+              {shown.length} of {records.length} records
+            </span>
+          )}
+        </div>
+      )}
+
       <div className="records-list">
-        {records.length === 0 ? (
+        {shown.length === 0 ? (
           <div className="empty-state">
             <p>No AI records found</p>
-            <p className="empty-hint">Click "Add Record" to create your first entry</p>
+            {canCreate && (
+              <p className="empty-hint">Click "Add Record" to create your first entry</p>
+            )}
           </div>
         ) : (
           <div className="ai-records-grid">
-            {records.map((record) => (
-              <div key={record.id} className="ai-record-card">
-                <div className="record-info">
-                  <div className="animal-tag">
-                    <span className="label">Animal Tag:</span>
-                    <span className="value">{record.animal_tag}</span>
-                  </div>
-                  <div className="ai-date">
-                    <span className="label">AI Date:</span>
-                    <span className="value">
-                      {new Date(record.ai_date).toLocaleDateString('en-GB')}
-                    </span>
-                  </div>
-                  {record.created_at && (
-                    <div className="created-date">
-                      <span className="label">Recorded on:</span>
+            {shown.map((record) => {
+              const dates = getBreedingDates(record);
+              const attempt = getAttemptNumber(record, records);
+              const outcomes = canUpdate ? BREEDING_TRANSITIONS[record.status] : [];
+              const canRepeat = canCreate && needsRepeat(record, records);
+
+              return (
+                <div key={record.id} className="ai-record-card">
+                  <div className="record-info">
+                    <div className="animal-tag">
+                      <span className="label">Animal Tag:</span>
+                      <span className="value">{record.animal.tag}</span>
+                      <span className={`breeding-status ${record.status}`}>
+                        {BREEDING_STATUS_LABELS[record.status]}
+                      </span>
+                    </div>
+                    <div className="ai-date">
+                      <span className="label">AI Date:</span>
                       <span className="value">
-                        {new Date(record.created_at).toLocaleDateString('en-GB')}
+                        {formatDay(record.ai_date)}
+                        {attempt > 1 && <span className="breeding-attempt"> · AI #{attempt}</span>}
                       </span>
                     </div>
+                    {(record.bull || record.straw_id || record.technician || record.cost !== null) && (
+                      <div className="breeding-dates">
+                        {record.bull && (
+                          <span>
+                            Bull: {record.bull}
+                            {record.bull_breed && ` (${record.bull_breed})`}
+                          </span>
+                        )}
+                        {record.straw_id && <span>Straw: {record.straw_id}</span>}
+                        {record.technician && <span>Technician: {record.technician}</span>}
+                        {record.cost !== null && <span>Cost: ₹{record.cost}</span>}
+                      </div>
+                    )}
+                    {record.remarks && <p className="ai-remarks">{record.remarks}</p>}
+                    {record.status === 'inseminated' && (
+                      <div className="breeding-dates">
+                        <span>Heat check: {formatDay(dates.heatCheck)}</span>
+                        <span>PD due: {formatDay(dates.pdDue)}</span>
+                      </div>
+                    )}
+                    {record.heat_return_date && (
+                      <div className="breeding-dates">
+                        <span>Back in heat: {formatDay(record.heat_return_date)}</span>
+                      </div>
+                    )}
+                    {record.pd_date && (
+                      <div className="breeding-dates">
+                        <span>
+                          PD {record.pd_result === 'positive' ? 'positive' : 'negative'}:{' '}
+                          {formatDay(record.pd_date)}
+                        </span>
+                      </div>
+                    )}
+                    {(record.status === 'pregnant' || record.status === 'calved') && (
+                      <div className="breeding-dates">
+                        <span>Expected calving: {formatDay(dates.expectedCalving)}</span>
+                        {record.calving_date && (
+                          <span>Calved: {formatDay(record.calving_date)}</span>
+                        )}
+                      </div>
+                    )}
+                    {record.created_at && (
+                      <div className="created-date">
+                        <span className="label">Recorded on:</span>
+                        <span className="value">
+                          {new Date(record.created_at).toLocaleDateString('en-GB')}
+                        </span>
+                      </div>
+                    )}
+                    {(outcomes.length > 0 || canRepeat) && (
+                      <div className="breeding-actions">
+                        {outcomes.map((outcome) => (
+                          <button
+                            key={outcome}
+                            className="outbox-action"
+                            onClick={() => setEvent({ record, action: outcome })}
+                          >
+                            {OUTCOME_LABELS[outcome].action}
+                          </button>
+                        ))}
+                        {canRepeat && (
+                          <button
+                            className="outbox-action"
+                            onClick={() => setEvent({ record, action: 'repeat' })}
+                          >
+                            Repeat AI
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  {(canUpdate || canDelete) && (
+                    <div className="ai-record-actions">
+                      {canUpdate && (
+                        <button className="edit-button" onClick={() => openEdit(record)}>
+                          Edit
+                        </button>
+                      )}
+                      {canDelete && (
+                        <button
+                          className="delete-button"
+                          onClick={() => handleDelete(record.id!)}
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </div>
                   )}
                 </div>
-                <button
-                  className="delete-button"
-                  onClick={() => handleDelete(record.id!)}
-                >
-                  Delete
-                </button>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </div>
+
+      {event && (
+        <BreedingEventDialog
+          record={event.record}
+          action={event.action}
+          onClose={() => setEvent(null)}
+          onSaved={() => {
+            setEvent(null);
+            loadRecords();
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,186 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Formik, Form, Field } from 'formik'
+import { useAuth } from '../contexts/AuthContext'
+import { getAllProfiles, updateProfile, type Profile } from '../services/profileService'
+import { getReceiptCountsByUser } from '../services/receiptService'
+import type { Role } from '../lib/permissions'
+import './AdminUsers.css'
+
+const ROLES: Role[] = ['admin', 'member', 'viewer']
+
+export const AdminUsers = () => {
+  const { user, refreshProfile } = useAuth()
+  const [profiles, setProfiles] = useState<Profile[]>([])
+  const [receiptCounts, setReceiptCounts] = useState<Record<string, number>>({})
+  const [loading, setLoading] = useState(true)
+  const [editingProfile, setEditingProfile] = useState<Profile | null>(null)
+
+  const loadProfiles = useCallback(async () => {
+    setLoading(true)
+    try {
+      const profileData = await getAllProfiles()
+      const counts = await getReceiptCountsByUser(profileData.map(p => p.id))
+      setProfiles(profileData)
+      setReceiptCounts(counts)
+    } catch (error) {
+      console.error('Error loading users:', error)
+      alert('Failed to load users')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadProfiles()
+  }, [loadProfiles])
+
+  const applyUpdate = async (
+    profile: Profile,
+    updates: Partial<Pick<Profile, 'full_name' | 'phone' | 'role'>>
+  ) => {
+    const updated = await updateProfile(profile.id, updates)
+    setProfiles(prev => prev.map(p => (p.id === updated.id ? updated : p)))
+    if (updated.id === user?.id) {
+      await refreshProfile()
+    }
+  }
+
+  const handleRoleChange = async (profile: Profile, role: Role) => {
+    if (!confirm(`Change ${profile.full_name || profile.email} to ${role}?`)) return
+
+    try {
+      await applyUpdate(profile, { role })
+    } catch (error) {
+      console.error('Error changing role:', error)
+      alert(error instanceof Error ? error.message : 'Failed to change role')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="records-loading">
+        <div className="spinner"></div>
+        <p>Loading users...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="records-container">
+      <div className="records-header">
+        <h2>Users</h2>
+        <div className="records-stats">
+          <span className="stat-item">
+            Total: <strong>{profiles.length}</strong>
+          </span>
+        </div>
+      </div>
+
+      <div className="admin-user-list">
+        {profiles.map((profile) => {
+          const isSelf = profile.id === user?.id
+
+          return (
+            <div key={profile.id} className="admin-user-card">
+              <div className="admin-user-info">
+                <span className="admin-user-name">
+                  {profile.full_name || '—'}
+                  {isSelf && <span className="admin-user-self">You</span>}
+                </span>
+                <span className="admin-user-detail">{profile.email}</span>
+                <span className="admin-user-detail">{profile.phone || 'No phone'}</span>
+                <span className="admin-user-detail">
+                  Joined{' '}
+                  {profile.created_at
+                    ? new Date(profile.created_at).toLocaleDateString('en-GB')
+                    : '-'}
+                  {' · '}
+                  {receiptCounts[profile.id] || 0} receipts
+                </span>
+              </div>
+
+              <div className="admin-user-actions">
+                <select
+                  className="role-select"
+                  value={profile.role}
+                  // Demoting yourself would lock you out of this screen
+                  disabled={isSelf}
+                  onChange={(e) => handleRoleChange(profile, e.target.value as Role)}
+                >
+                  {ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {role}
+                    </option>
+                  ))}
+                </select>
+                <button className="edit-button" onClick={() => setEditingProfile(profile)}>
+                  Edit
+                </button>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {editingProfile && (
+        <div className="modal-overlay" onClick={() => setEditingProfile(null)}>
+          <div className="modal" onClick={(e) => e.stopPropagation()}>
+            <div className="header-section">
+              <h2>Edit Profile</h2>
+            </div>
+            <p className="admin-user-detail">{editingProfile.email}</p>
+
+            <Formik
+              initialValues={{
+                full_name: editingProfile.full_name || '',
+                phone: editingProfile.phone || '',
+              }}
+              onSubmit={async (values, { setSubmitting }) => {
+                try {
+                  await applyUpdate(editingProfile, {
+                    full_name: values.full_name.trim() || null,
+                    phone: values.phone.trim() || null,
+                  })
+                  setEditingProfile(null)
+                } catch (error) {
+                  console.error('Error updating profile:', error)
+                  alert(error instanceof Error ? error.message : 'Failed to update profile')
+                } finally {
+                  setSubmitting(false)
+                }
+              }}
+            >
+              {({ isSubmitting }) => (
+                <Form className="ai-form">
+                  <div className="form-group">
+                    <label>Full Name</label>
+                    <Field name="full_name" type="text" placeholder="Full name" />
+                  </div>
+
+                  <div className="form-group">
+                    <label>Phone</label>
+                    <Field name="phone" type="tel" placeholder="Phone number" />
+                  </div>
+
+                  <div className="modal-actions">
+                    <button type="submit" className="save-button" disabled={isSubmitting}>
+                      {isSubmitting ? 'Saving...' : 'Save'}
+                    </button>
+                    <button
+                      type="button"
+                      className="reset-button"
+                      onClick={() => setEditingProfile(null)}
+                      disabled={isSubmitting}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </Form>
+              )}
+            </Formik>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,165 @@
+import { useState } from 'react'
+import { Formik, Form, Field } from 'formik'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  saveAnimal,
+  updateAnimal,
+  ANIMAL_STATUS_LABELS,
+  type Animal,
+  type AnimalInput,
+  type AnimalStatus,
+} from '../services/animalService'
+import { compressImage } from '../lib/image'
+
+interface AnimalFormValues {
+  tag: string
+  name: string
+  breed: string
+  dateOfBirth: string
+  damId: string
+  sire: string
+  status: AnimalStatus
+}
+
+const toAnimalInput = (values: AnimalFormValues): AnimalInput => ({
+  tag: values.tag,
+  name: values.name,
+  breed: values.breed,
+  date_of_birth: values.dateOfBirth,
+  dam_id: values.damId,
+  sire: values.sire,
+  status: values.status,
+})
+
+interface AnimalFormProps {
+  // The animal being edited; a new one is added when absent
+  animal?: Animal
+  animals: Animal[]
+  onCancel: () => void
+  onSaved: (animal: Animal) => void
+}
+
+export const AnimalForm = ({ animal, animals, onCancel, onSaved }: AnimalFormProps) => {
+  const { user } = useAuth()
+  const [photo, setPhoto] = useState<Blob | null>(null)
+  const [photoPreview, setPhotoPreview] = useState<string | null>(animal?.photo_url ?? null)
+
+  const handlePhoto = async (file: File | undefined) => {
+    if (!file) return
+
+    try {
+      const compressed = await compressImage(file)
+      setPhoto(compressed)
+      setPhotoPreview(URL.createObjectURL(compressed))
+    } catch (error) {
+      console.error('Error reading photo:', error)
+      alert('Could not read that photo')
+    }
+  }
+
+  // An animal can't be its own dam
+  const damOptions = animals.filter((a) => a.id !== animal?.id)
+
+  return (
+    <div className="ai-form-container">
+      <h3>{animal ? `Edit ${animal.tag}` : 'Add Animal'}</h3>
+      <Formik<AnimalFormValues>
+        initialValues={{
+          tag: animal?.tag ?? '',
+          name: animal?.name ?? '',
+          breed: animal?.breed ?? '',
+          dateOfBirth: animal?.date_of_birth ?? '',
+          damId: animal?.dam_id ?? '',
+          sire: animal?.sire ?? '',
+          status: animal?.status ?? 'milking',
+        }}
+        onSubmit={async (values, { setSubmitting }) => {
+          if (!user) return
+
+          try {
+            const saved = animal
+              ? await updateAnimal(animal, toAnimalInput(values), photo)
+              : await saveAnimal(user.id, toAnimalInput(values), photo)
+            onSaved(saved)
+          } catch (error) {
+            console.error('Error saving animal:', error)
+            alert(error instanceof Error ? error.message : 'Failed to save animal')
+          } finally {
+            setSubmitting(false)
+          }
+        }}
+      >
+        {({ isSubmitting }) => (
+          <Form className="ai-form animal-form">
+            <div className="form-group">
+              <label>Tag Number</label>
+              <Field name="tag" type="text" placeholder="e.g., A001, COW-123" required />
+            </div>
+
+            <div className="form-group">
+              <label>Name</label>
+              <Field name="name" type="text" placeholder="Optional" />
+            </div>
+
+            <div className="form-group">
+              <label>Breed</label>
+              <Field name="breed" type="text" placeholder="e.g., HF cross, Gir, Murrah" />
+            </div>
+
+            <div className="form-group">
+              <label>Date of Birth</label>
+              <Field name="dateOfBirth" type="date" />
+            </div>
+
+            <div className="form-group">
+              <label>Dam</label>
+              <Field as="select" name="damId">
+                <option value="">Not in the herd</option>
+                {damOptions.map((a) => (
+                  <option key={a.id} value={a.id}>
+                    {a.tag}{a.name ? ` · ${a.name}` : ''}
+                  </option>
+                ))}
+              </Field>
+            </div>
+
+            <div className="form-group">
+              <label>Sire</label>
+              <Field name="sire" type="text" placeholder="Bull name or semen code" />
+            </div>
+
+            <div className="form-group">
+              <label>Status</label>
+              <Field as="select" name="status">
+                {Object.entries(ANIMAL_STATUS_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </Field>
+            </div>
+
+            <div className="form-group">
+              <label>Photo</label>
+              <input
+                type="file"
+                accept="image/*"
+                onChange={(e) => handlePhoto(e.target.files?.[0])}
+              />
+              {photoPreview && <img src={photoPreview} alt="" className="animal-photo-preview" />}
+            </div>
+
+            <div className="modal-actions form-wide">
+              <button type="submit" className="save-button" disabled={isSubmitting}>
+                {isSubmitting ? 'Saving...' : 'Save Animal'}
+              </button>
+              <button type="button" className="reset-button" onClick={onCancel} disabled={isSubmitting}>
+                Cancel
+              </button>
+            </div>
+          </Form>
+        )}
+      </Formik>
+    </div>
+  )
+}
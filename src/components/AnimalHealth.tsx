@@ -0,0 +1,97 @@
+import { useState } from 'react'
+import type { Animal } from '../services/animalService'
+import {
+  deleteHealthRecord,
+  HEALTH_KIND_LABELS,
+  type HealthRecord,
+} from '../services/healthRecordService'
+import { getWithdrawalEnd } from '../lib/health'
+import { HealthRecordForm } from './HealthRecordForm'
+import { formatDay } from '../lib/dates'
+
+interface AnimalHealthProps {
+  animal: Animal
+  // This animal's records, newest first
+  records: HealthRecord[]
+  canManage: boolean
+  onSaved: (record: HealthRecord) => void
+  onDeleted: (id: string) => void
+}
+
+export const AnimalHealth = ({ animal, records, canManage, onSaved, onDeleted }: AnimalHealthProps) => {
+  // The record being edited, or 'new' while adding one
+  const [editing, setEditing] = useState<HealthRecord | 'new' | null>(null)
+
+  const handleDelete = async (record: HealthRecord) => {
+    if (!confirm(`Delete the ${record.drug} record from ${formatDay(record.date)}?`)) return
+
+    try {
+      await deleteHealthRecord(record.id)
+      onDeleted(record.id)
+    } catch (error) {
+      console.error('Error deleting health record:', error)
+      alert('Failed to delete health record')
+    }
+  }
+
+  if (editing) {
+    return (
+      <HealthRecordForm
+        animal={animal}
+        record={editing === 'new' ? undefined : editing}
+        onCancel={() => setEditing(null)}
+        onSaved={(record) => {
+          setEditing(null)
+          onSaved(record)
+        }}
+      />
+    )
+  }
+
+  return (
+    <section className="animal-section">
+      <div className="health-header">
+        <h3>Health</h3>
+        {canManage && (
+          <button className="outbox-action" onClick={() => setEditing('new')}>
+            + Add
+          </button>
+        )}
+      </div>
+      {records.length === 0 ? (
+        <p className="animal-empty">No treatments, vaccinations or deworming recorded.</p>
+      ) : (
+        <ul className="animal-history">
+          {records.map((record) => {
+            const withdrawalEnd = getWithdrawalEnd(record)
+            return (
+              <li key={record.id}>
+                <span>
+                  {formatDay(record.date)} · {HEALTH_KIND_LABELS[record.kind]}
+                </span>
+                <span>
+                  <strong>{record.drug}</strong>
+                  {record.dose && ` ${record.dose}`}
+                </span>
+                <span className="animal-history-detail">
+                  {withdrawalEnd ? `Milk withheld until ${formatDay(withdrawalEnd)}` : ''}
+                  {record.notes && <span className="health-notes">{record.notes}</span>}
+                </span>
+                {canManage && (
+                  <span className="health-actions">
+                    <button className="outbox-action" onClick={() => setEditing(record)}>
+                      Edit
+                    </button>
+                    <button className="outbox-action" onClick={() => handleDelete(record)}>
+                      Delete
+                    </button>
+                  </span>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react'
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import { useAuth } from '../contexts/AuthContext'
+import { getMilkings, type Milking } from '../services/milkingService'
+import { getLactations } from '../lib/milking'
+import { formatDay } from '../lib/dates'
+
+interface AnimalMilkYieldProps {
+  animalId: string
+  calvingDates: string[]
+}
+
+// Newest lactation is drawn darkest
+const LINE_COLORS = ['#cbd5e0', '#a3bffa', '#764ba2', '#667eea']
+
+export const AnimalMilkYield = ({ animalId, calvingDates }: AnimalMilkYieldProps) => {
+  const { user } = useAuth()
+  const [milkings, setMilkings] = useState<Milking[] | null>(null)
+
+  useEffect(() => {
+    if (!user) return
+
+    let cancelled = false
+    getMilkings(user.id, { animalId })
+      .then((rows) => {
+        if (!cancelled) setMilkings(rows)
+      })
+      .catch((error) => {
+        console.error('Error loading milkings:', error)
+        if (!cancelled) setMilkings([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [user, animalId])
+
+  if (milkings === null) return null
+
+  const lactations = getLactations(milkings, calvingDates).slice(-LINE_COLORS.length)
+  const current = lactations[lactations.length - 1]
+
+  return (
+    <section className="animal-section">
+      <h3>Milk Yield</h3>
+      {!current ? (
+        <p className="animal-empty">No milkings logged. Enter them in the Milking tab.</p>
+      ) : (
+        <>
+          <div className="animal-yield-stats">
+            <span>
+              {current.fromCalving ? `Calved ${formatDay(current.start)}` : `Logged since ${formatDay(current.start)}`}
+            </span>
+            {current.peak && (
+              <span>
+                Peak {current.peak.litres.toFixed(1)} L on day {current.peak.day}
+              </span>
+            )}
+            <span>Total {current.total.toFixed(0)} L</span>
+            <span>Avg. {(current.total / current.points.length).toFixed(1)} L/day</span>
+          </div>
+          <ResponsiveContainer width="100%" height={240}>
+            <LineChart>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis
+                dataKey="day"
+                type="number"
+                domain={[0, 'dataMax']}
+                fontSize={11}
+                allowDuplicatedCategory={false}
+                unit="d"
+              />
+              <YAxis fontSize={11} unit=" L" width={50} />
+              <Tooltip
+                labelFormatter={(day) => `Day ${day} in milk`}
+                formatter={(value) => `${Number(value).toFixed(1)} L`}
+              />
+              <Legend />
+              {lactations.map((lactation, index) => (
+                <Line
+                  key={lactation.start}
+                  data={lactation.points}
+                  dataKey="litres"
+                  name={lactation.fromCalving ? `Calved ${formatDay(lactation.start)}` : 'Before calving recorded'}
+                  stroke={LINE_COLORS[LINE_COLORS.length - lactations.length + index]}
+                  strokeWidth={index === lactations.length - 1 ? 2 : 1}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,176 @@
+import type { ReactNode } from 'react'
+import { ANIMAL_STATUS_LABELS, type Animal } from '../services/animalService'
+import type { AIRecord } from '../services/aiRecordService'
+import type { HealthRecord } from '../services/healthRecordService'
+import { formatAge } from '../lib/animals'
+import { BREEDING_STATUS_LABELS, getAttemptNumber, getBreedingDates } from '../lib/breeding'
+import type { Withdrawal } from '../lib/health'
+import { AnimalMilkYield } from './AnimalMilkYield'
+import { AnimalHealth } from './AnimalHealth'
+import { WithdrawalBanner } from './WithdrawalBanner'
+import { formatDay } from '../lib/dates'
+
+interface AnimalProfileProps {
+  animal: Animal
+  animals: Animal[]
+  records: AIRecord[]
+  healthRecords: HealthRecord[]
+  // Set while the animal's milk is withheld after a treatment
+  withdrawal?: Withdrawal
+  canManage: boolean
+  canManageHealth: boolean
+  onHealthSaved: (record: HealthRecord) => void
+  onHealthDeleted: (id: string) => void
+  onSelect: (animal: Animal) => void
+  onEdit: () => void
+  onDelete: () => void
+  onBack: () => void
+}
+
+export const AnimalProfile = ({
+  animal,
+  animals,
+  records,
+  healthRecords,
+  withdrawal,
+  canManage,
+  canManageHealth,
+  onHealthSaved,
+  onHealthDeleted,
+  onSelect,
+  onEdit,
+  onDelete,
+  onBack,
+}: AnimalProfileProps) => {
+  const dam = animals.find((a) => a.id === animal.dam_id)
+  const calves = animals.filter((a) => a.dam_id === animal.id)
+  const history = records.filter((r) => r.animal_id === animal.id)
+
+  const details: [string, ReactNode][] = [
+    ['Name', animal.name],
+    ['Breed', animal.breed],
+    [
+      'Born',
+      animal.date_of_birth &&
+        `${formatDay(animal.date_of_birth)} (${formatAge(animal.date_of_birth, new Date())})`,
+    ],
+    [
+      'Dam',
+      dam && (
+        <button className="animal-link" onClick={() => onSelect(dam)}>
+          {dam.tag}{dam.name ? ` · ${dam.name}` : ''}
+        </button>
+      ),
+    ],
+    ['Sire', animal.sire],
+  ]
+
+  return (
+    <div className="animal-profile">
+      <div className="animal-profile-header">
+        <button className="outbox-action" onClick={onBack}>
+          ← All animals
+        </button>
+        {canManage && (
+          <div className="animal-profile-actions">
+            <button className="edit-button" onClick={onEdit}>
+              Edit
+            </button>
+            <button className="delete-button" onClick={onDelete}>
+              Delete
+            </button>
+          </div>
+        )}
+      </div>
+
+      <WithdrawalBanner withdrawals={withdrawal ? [withdrawal] : []} />
+
+      <div className="animal-profile-card">
+        {animal.photo_url ? (
+          <img src={animal.photo_url} alt={animal.tag} className="animal-profile-photo" />
+        ) : (
+          <div className="animal-profile-photo placeholder">🐄</div>
+        )}
+        <div className="animal-profile-info">
+          <h2>
+            {animal.tag}
+            <span className={`animal-status ${animal.status}`}>
+              {ANIMAL_STATUS_LABELS[animal.status]}
+            </span>
+          </h2>
+          <dl className="animal-details">
+            {details
+              .filter(([, value]) => value)
+              .map(([label, value]) => (
+                <div key={label}>
+                  <dt>{label}</dt>
+                  <dd>{value}</dd>
+                </div>
+              ))}
+          </dl>
+        </div>
+      </div>
+
+      {calves.length > 0 && (
+        <section className="animal-section">
+          <h3>Calves</h3>
+          <ul className="animal-history">
+            {calves.map((calf) => (
+              <li key={calf.id}>
+                <button className="animal-link" onClick={() => onSelect(calf)}>
+                  {calf.tag}{calf.name ? ` · ${calf.name}` : ''}
+                </button>
+                <span>{calf.date_of_birth ? formatDay(calf.date_of_birth) : ''}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <AnimalMilkYield
+        animalId={animal.id}
+        calvingDates={history.flatMap((r) => (r.calving_date ? [r.calving_date] : []))}
+      />
+
+      <AnimalHealth
+        key={animal.id}
+        animal={animal}
+        records={healthRecords}
+        canManage={canManageHealth}
+        onSaved={onHealthSaved}
+        onDeleted={onHealthDeleted}
+      />
+
+      <section className="animal-section">
+        <h3>AI History</h3>
+        {history.length === 0 ? (
+          <p className="animal-empty">No inseminations recorded.</p>
+        ) : (
+          <ul className="animal-history">
+            {history.map((record) => (
+              <li key={record.id}>
+                <span>
+                  AI #{getAttemptNumber(record, records)} on {formatDay(record.ai_date)}
+                </span>
+                <span className={`breeding-status ${record.status}`}>
+                  {BREEDING_STATUS_LABELS[record.status]}
+                </span>
+                <span className="animal-history-detail">
+                  {record.calving_date
+                    ? `Calved ${formatDay(record.calving_date)}`
+                    : record.status === 'pregnant'
+                      ? `Due ${formatDay(getBreedingDates(record).expectedCalving)}`
+                      : record.pd_date
+                        ? `PD ${formatDay(record.pd_date)}`
+                        : record.heat_return_date
+                          ? `In heat ${formatDay(record.heat_return_date)}`
+                          : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  )
+}
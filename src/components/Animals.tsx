@@ -0,0 +1,195 @@
+import { useCallback, useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  getUserAnimals,
+  deleteAnimal,
+  isInHerd,
+  ANIMAL_STATUS_LABELS,
+  type Animal,
+  type AnimalStatus,
+} from '../services/animalService'
+import { getUserAIRecords, type AIRecord } from '../services/aiRecordService'
+import { getUserHealthRecords, type HealthRecord } from '../services/healthRecordService'
+import { formatAge } from '../lib/animals'
+import { getWithdrawals } from '../lib/health'
+import { AnimalForm } from './AnimalForm'
+import { AnimalProfile } from './AnimalProfile'
+import { WithdrawalBanner } from './WithdrawalBanner'
+import './Animals.css'
+
+// "herd" hides animals that were sold or died
+type AnimalFilter = 'herd' | 'all' | AnimalStatus
+
+export const Animals = () => {
+  const { user, can } = useAuth()
+  const canManage = can('animal:manage')
+  const [animals, setAnimals] = useState<Animal[]>([])
+  const [records, setRecords] = useState<AIRecord[]>([])
+  const [healthRecords, setHealthRecords] = useState<HealthRecord[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filter, setFilter] = useState<AnimalFilter>('herd')
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  // The animal being edited, or 'new' while adding one
+  const [editing, setEditing] = useState<Animal | 'new' | null>(null)
+
+  const loadAnimals = useCallback(async () => {
+    if (!user) return
+
+    setLoading(true)
+    try {
+      const [herd, aiRecords, health] = await Promise.all([
+        getUserAnimals(user.id),
+        getUserAIRecords(user.id),
+        getUserHealthRecords(user.id),
+      ])
+      setAnimals(herd)
+      setRecords(aiRecords)
+      setHealthRecords(health)
+    } catch (error) {
+      console.error('Error loading animals:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    loadAnimals()
+  }, [loadAnimals])
+
+  const handleSaved = (saved: Animal) => {
+    setAnimals(prev =>
+      [...prev.filter(a => a.id !== saved.id), saved].sort((a, b) => a.tag.localeCompare(b.tag))
+    )
+    setEditing(null)
+    setSelectedId(saved.id)
+  }
+
+  const handleHealthSaved = (saved: HealthRecord) => {
+    setHealthRecords(prev =>
+      [...prev.filter(r => r.id !== saved.id), saved].sort((a, b) => b.date.localeCompare(a.date))
+    )
+  }
+
+  const handleDelete = async (animal: Animal) => {
+    if (!confirm(`Delete ${animal.tag}? Its photo is removed too.`)) return
+
+    try {
+      await deleteAnimal(animal)
+      setAnimals(prev => prev.filter(a => a.id !== animal.id))
+      setSelectedId(null)
+    } catch (error) {
+      console.error('Error deleting animal:', error)
+      alert(error instanceof Error ? error.message : 'Failed to delete animal')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="records-loading">
+        <div className="spinner"></div>
+        <p>Loading animals...</p>
+      </div>
+    )
+  }
+
+  const selected = animals.find(a => a.id === selectedId)
+  const withdrawals = getWithdrawals(healthRecords, format(new Date(), 'yyyy-MM-dd'))
+  const shown = animals.filter(a =>
+    filter === 'all' ? true : filter === 'herd' ? isInHerd(a) : a.status === filter
+  )
+
+  return (
+    <div className="records-container">
+      {editing ? (
+        <AnimalForm
+          animal={editing === 'new' ? undefined : editing}
+          animals={animals}
+          onCancel={() => setEditing(null)}
+          onSaved={handleSaved}
+        />
+      ) : selected ? (
+        <AnimalProfile
+          animal={selected}
+          animals={animals}
+          records={records}
+          healthRecords={healthRecords.filter(r => r.animal_id === selected.id)}
+          withdrawal={withdrawals.find(w => w.animal.id === selected.id)}
+          canManage={canManage}
+          canManageHealth={can('health-record:manage')}
+          onHealthSaved={handleHealthSaved}
+          onHealthDeleted={(id) => setHealthRecords(prev => prev.filter(r => r.id !== id))}
+          onSelect={(animal) => setSelectedId(animal.id)}
+          onEdit={() => setEditing(selected)}
+          onDelete={() => handleDelete(selected)}
+          onBack={() => setSelectedId(null)}
+        />
+      ) : (
+        <>
+          <div className="records-header">
+            <h2>Animals</h2>
+            <div className="records-stats">
+              <select
+                className="animal-filter"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value as AnimalFilter)}
+              >
+                <option value="herd">In the herd</option>
+                <option value="all">All animals</option>
+                {Object.entries(ANIMAL_STATUS_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {canManage && (
+                <button className="add-button" onClick={() => setEditing('new')}>
+                  + Add Animal
+                </button>
+              )}
+            </div>
+          </div>
+
+          <WithdrawalBanner withdrawals={withdrawals} />
+
+          {shown.length === 0 ? (
+            <div className="no-records">
+              <p>No animals found</p>
+              {canManage && animals.length === 0 && (
+                <p className="no-records-hint">Add your animals to link AI records to them.</p>
+              )}
+            </div>
+          ) : (
+            <div className="animal-grid">
+              {shown.map((animal) => (
+                <button
+                  key={animal.id}
+                  className="animal-card"
+                  onClick={() => setSelectedId(animal.id)}
+                >
+                  {animal.photo_url ? (
+                    <img src={animal.photo_url} alt="" className="animal-card-photo" />
+                  ) : (
+                    <div className="animal-card-photo placeholder">🐄</div>
+                  )}
+                  <div className="animal-card-info">
+                    <span className="animal-card-tag">{animal.tag}</span>
+                    {animal.name && <span className="animal-card-detail">{animal.name}</span>}
+                    <span className="animal-card-detail">
+                      {[animal.breed, animal.date_of_birth && formatAge(animal.date_of_birth, new Date())]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </span>
+                  </div>
+                  <span className={`animal-status ${animal.status}`}>
+                    {ANIMAL_STATUS_LABELS[animal.status]}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,277 @@
+import { useRef, useState } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import { ReceiptFields } from './ReceiptFields'
+import { WithdrawalBanner } from './WithdrawalBanner'
+import type { Withdrawal } from '../lib/health'
+import { getLowConfidenceFields, validateReceipt } from '../lib/receiptValidation'
+import { applyReceiptEdits, type ParsedData, type ReceiptField } from '../services/receiptService'
+import type { BatchItem, BatchQueue } from '../hooks/useBatchQueue'
+import './BatchReview.css'
+
+const STATUS_LABELS: Record<BatchItem['status'], string> = {
+  processing: 'Reading',
+  review: 'To review',
+  accepted: 'Accepted',
+  failed: 'Failed',
+}
+
+// Slips in the batch that share a date and shift with another one
+const findBatchDuplicates = (items: BatchItem[]): Set<string> => {
+  const byKey = new Map<string, string[]>()
+  items.forEach(item => {
+    if (!item.data?.date) return
+    const key = `${item.data.date}|${item.data.shift ?? ''}`
+    byKey.set(key, [...(byKey.get(key) ?? []), item.id])
+  })
+  return new Set([...byKey.values()].filter(ids => ids.length > 1).flat())
+}
+
+interface BatchItemCardProps {
+  item: BatchItem
+  isDuplicate: boolean
+  withdrawals: Withdrawal[]
+  disabled: boolean
+  onUpdate: (changes: Partial<BatchItem>) => void
+  onRemove: () => void
+  onRetry: () => void
+}
+
+const BatchItemCard = ({
+  item,
+  isDuplicate,
+  withdrawals,
+  disabled,
+  onUpdate,
+  onRemove,
+  onRetry,
+}: BatchItemCardProps) => {
+  const [editValues, setEditValues] = useState<Partial<ParsedData> | null>(null)
+  const isEditing = editValues !== null
+  const values = editValues ?? item.data
+
+  const handleDoneEditing = () => {
+    if (!editValues) return
+    onUpdate({ data: applyReceiptEdits(item.data, editValues) })
+    setEditValues(null)
+  }
+
+  const handleFieldChange = (field: ReceiptField, value: string) => {
+    setEditValues(prev => ({ ...prev, [field]: value }))
+  }
+
+  return (
+    <li className={`batch-item ${item.status}`}>
+      <div className="batch-item-header">
+        <img className="batch-item-thumb" src={item.previewUrl} alt={item.file.name} />
+        <div className="batch-item-info">
+          <span className="batch-item-name">{item.file.name}</span>
+          <span className={`batch-badge ${item.status}`}>{STATUS_LABELS[item.status]}</span>
+        </div>
+        <button
+          type="button"
+          className="batch-item-remove"
+          onClick={onRemove}
+          disabled={disabled}
+          title="Discard"
+        >
+          ✕
+        </button>
+      </div>
+
+      {item.status === 'processing' && (
+        <div className="batch-item-processing">
+          <div className="spinner"></div>
+          <span>Reading slip...</span>
+        </div>
+      )}
+
+      {item.error && <p className="batch-item-error">{item.error}</p>}
+      {isDuplicate && (
+        <p className="batch-item-error">Another slip in this batch has the same date and shift.</p>
+      )}
+
+      {item.status === 'failed' && (
+        <div className="batch-item-actions">
+          <button type="button" className="edit-button" onClick={onRetry} disabled={disabled}>
+            Retry
+          </button>
+        </div>
+      )}
+
+      {values && (item.status === 'review' || item.status === 'accepted') && (
+        <>
+          <WithdrawalBanner
+            withdrawals={withdrawals}
+            message="This slip's date is inside a milk withdrawal period. Make sure none of this milk was sold:"
+          />
+          <ReceiptFields
+            values={values}
+            isEditing={isEditing}
+            onChange={handleFieldChange}
+            issues={validateReceipt(values)}
+          />
+          <div className="batch-item-actions">
+            {isEditing ? (
+              <button type="button" className="edit-button" onClick={handleDoneEditing}>
+                Done
+              </button>
+            ) : (
+              <button
+                type="button"
+                className="edit-button"
+                onClick={() => {
+                  setEditValues(item.data ?? {})
+                  onUpdate({ status: 'review' })
+                }}
+                disabled={disabled}
+              >
+                Edit
+              </button>
+            )}
+            {item.status === 'review' ? (
+              <button
+                type="button"
+                className="batch-accept"
+                onClick={() => onUpdate({ status: 'accepted', error: undefined })}
+                disabled={disabled || isEditing}
+              >
+                Accept
+              </button>
+            ) : (
+              <button
+                type="button"
+                className="batch-accept undo"
+                onClick={() => onUpdate({ status: 'review' })}
+                disabled={disabled}
+              >
+                Undo
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </li>
+  )
+}
+
+interface BatchReviewProps {
+  queue: BatchQueue
+  onAddFiles: (files: File[]) => void
+  onRetry: (item: BatchItem) => void
+  // Animals whose milk was withheld on a slip's date
+  getWithdrawals: (data: Partial<ParsedData> | null) => Withdrawal[]
+}
+
+export const BatchReview = ({ queue, onAddFiles, onRetry, getWithdrawals }: BatchReviewProps) => {
+  const { user } = useAuth()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { items, isSaving, updateItem, removeItem, clear, saveAccepted } = queue
+
+  const duplicates = findBatchDuplicates(items)
+  const count = (status: BatchItem['status']) => items.filter(item => item.status === status).length
+  const accepted = count('accepted')
+  const processing = count('processing')
+
+  // Slips with nothing flagged can be accepted in one go; the rest need a look
+  const clean = items.filter(
+    item =>
+      item.status === 'review' &&
+      item.data &&
+      !item.error &&
+      !duplicates.has(item.id) &&
+      getWithdrawals(item.data).length === 0 &&
+      validateReceipt(item.data).length === 0 &&
+      getLowConfidenceFields(item.data).length === 0
+  )
+
+  const handleSave = async () => {
+    if (!user) return
+
+    const saved = await saveAccepted(user.id)
+    if (saved === accepted) {
+      alert(`${saved} receipt${saved === 1 ? '' : 's'} saved.`)
+    } else {
+      alert(`${saved} of ${accepted} receipts saved. The rest need another look.`)
+    }
+  }
+
+  const handleClear = () => {
+    if (items.some(item => item.status !== 'failed') && !confirm('Discard all slips in this batch?')) {
+      return
+    }
+    clear()
+  }
+
+  return (
+    <div className="batch-review">
+      <div className="batch-header">
+        <div>
+          <h2>Review Slips</h2>
+          <p className="batch-summary">
+            {items.length} slip{items.length === 1 ? '' : 's'} · {accepted} accepted
+            {processing > 0 && ` · ${processing} reading`}
+          </p>
+        </div>
+        <div className="batch-header-actions">
+          <button
+            type="button"
+            className="outbox-action"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isSaving}
+          >
+            + Add more
+          </button>
+          {clean.length > 0 && (
+            <button
+              type="button"
+              className="outbox-action"
+              onClick={() => clean.forEach(item => updateItem(item.id, { status: 'accepted' }))}
+              disabled={isSaving}
+            >
+              Accept {clean.length} without issues
+            </button>
+          )}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="file-input"
+          onChange={(e) => {
+            onAddFiles(Array.from(e.target.files ?? []))
+            e.target.value = ''
+          }}
+        />
+      </div>
+
+      <ul className="batch-list">
+        {items.map(item => (
+          <BatchItemCard
+            key={item.id}
+            item={item}
+            isDuplicate={duplicates.has(item.id)}
+            withdrawals={getWithdrawals(item.data)}
+            disabled={isSaving}
+            onUpdate={changes => updateItem(item.id, changes)}
+            onRemove={() => removeItem(item.id)}
+            onRetry={() => onRetry(item)}
+          />
+        ))}
+      </ul>
+
+      <div className="action-buttons batch-footer">
+        <button
+          className="save-button"
+          onClick={handleSave}
+          disabled={isSaving || accepted === 0}
+        >
+          {isSaving ? 'Saving...' : `Save ${accepted} Accepted`}
+        </button>
+        <button className="reset-button" onClick={handleClear} disabled={isSaving}>
+          Discard All
+        </button>
+      </div>
+    </div>
+  )
+}
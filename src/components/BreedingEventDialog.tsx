@@ -0,0 +1,104 @@
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { useAuth } from '../contexts/AuthContext'
+import { saveAIRecord, updateAIRecord, type AIRecord } from '../services/aiRecordService'
+import {
+  OUTCOME_LABELS,
+  toOutcomeUpdate,
+  validateOutcomeDate,
+  type BreedingOutcome,
+} from '../lib/breeding'
+
+interface BreedingEventDialogProps {
+  record: AIRecord
+  // An outcome for this insemination, or a repeat AI following it
+  action: BreedingOutcome | 'repeat'
+  onClose: () => void
+  onSaved: () => void
+}
+
+export const BreedingEventDialog = ({ record, action, onClose, onSaved }: BreedingEventDialogProps) => {
+  const { user } = useAuth()
+  const [date, setDate] = useState(() => format(new Date(), 'yyyy-MM-dd'))
+  // Animals in heat are usually inseminated again straight away
+  const [repeatSameDay, setRepeatSameDay] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const error = validateOutcomeDate(record, date, new Date())
+  const title = action === 'repeat' ? 'Repeat AI' : OUTCOME_LABELS[action].action
+  const dateLabel = action === 'repeat' ? 'AI Date' : OUTCOME_LABELS[action].dateLabel
+
+  const handleSave = async () => {
+    if (!user || !record.id || error) return
+
+    setIsSaving(true)
+    try {
+      if (action !== 'repeat') {
+        await updateAIRecord(record.id, toOutcomeUpdate(action, date))
+      }
+      if (action === 'repeat' || (action === 'returned' && repeatSameDay)) {
+        // The same technician usually comes back; the bull and straw are added by editing the record
+        await saveAIRecord(
+          user.id,
+          {
+            animal_id: record.animal_id,
+            ai_date: date,
+            bull: null,
+            bull_breed: null,
+            straw_id: null,
+            technician: record.technician,
+            cost: null,
+            remarks: null,
+          },
+          record.id
+        )
+      }
+      onSaved()
+    } catch (error) {
+      console.error('Error saving breeding event:', error)
+      alert(error instanceof Error ? error.message : 'Failed to save')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="header-section">
+          <h2>
+            {title} · {record.animal.tag}
+          </h2>
+        </div>
+
+        <div className="ai-form">
+          <div className="form-group">
+            <label>{dateLabel}</label>
+            <input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          {action === 'returned' && (
+            <label className="breeding-option">
+              <input
+                type="checkbox"
+                checked={repeatSameDay}
+                onChange={(e) => setRepeatSameDay(e.target.checked)}
+              />
+              Inseminated again the same day
+            </label>
+          )}
+        </div>
+
+        {error && <p className="modal-text modal-hint">⚠️ {error}</p>}
+
+        <div className="modal-actions">
+          <button className="save-button" onClick={handleSave} disabled={isSaving || !!error}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+          <button className="reset-button" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+import type { AIRecord } from '../services/aiRecordService'
+import { getConceptionStats, type ConceptionStats as Stats } from '../lib/breeding'
+
+interface ConceptionStatsProps {
+  records: AIRecord[]
+}
+
+const StatsTable = ({ title, label, stats }: { title: string; label: string; stats: Stats[] }) => (
+  <section className="breeding-alert-list">
+    <h3>{title}</h3>
+    <table className="conception-table">
+      <thead>
+        <tr>
+          <th>{label}</th>
+          <th>AIs</th>
+          <th>Conceived</th>
+          <th>Rate</th>
+          <th>Cost / conception</th>
+        </tr>
+      </thead>
+      <tbody>
+        {stats.map((s) => (
+          <tr key={s.name}>
+            <td>{s.name}</td>
+            <td>{s.inseminations}</td>
+            <td>
+              {s.conceived} / {s.resolved}
+            </td>
+            <td>{s.rate === null ? '-' : `${s.rate.toFixed(0)}%`}</td>
+            <td>{s.conceived > 0 && s.cost > 0 ? `₹${(s.cost / s.conceived).toFixed(0)}` : '-'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </section>
+)
+
+/** Conception rates per bull and per technician, once either has been entered. */
+export const ConceptionStats = ({ records }: ConceptionStatsProps) => {
+  const byBull = getConceptionStats(records, 'bull')
+  const byTechnician = getConceptionStats(records, 'technician')
+
+  if (byBull.length === 0 && byTechnician.length === 0) return null
+
+  return (
+    <div className="breeding-alerts">
+      {byBull.length > 0 && <StatsTable title="🐂 Conception by bull" label="Bull" stats={byBull} />}
+      {byTechnician.length > 0 && (
+        <StatsTable title="🧑‍⚕️ Conception by technician" label="Technician" stats={byTechnician} />
+      )}
+    </div>
+  )
+}
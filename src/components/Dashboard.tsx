@@ -0,0 +1,232 @@
+import { useEffect, useState } from 'react'
+import { subDays } from 'date-fns'
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import { useAuth } from '../contexts/AuthContext'
+import { getUserReceipts, type Receipt } from '../services/receiptService'
+import {
+  compareMonthToDate,
+  getQualityTrend,
+  getSeries,
+  type Granularity,
+  type ReceiptTotals,
+} from '../lib/analytics'
+import './Dashboard.css'
+
+type Range = '30d' | '90d' | '1y' | 'all'
+
+const RANGES: { value: Range; label: string; days: number | null }[] = [
+  { value: '30d', label: '30 days', days: 30 },
+  { value: '90d', label: '90 days', days: 90 },
+  { value: '1y', label: '1 year', days: 365 },
+  { value: 'all', label: 'All', days: null },
+]
+
+const PRIMARY = '#667eea'
+const SECONDARY = '#764ba2'
+
+const fixed = (value: number | null | undefined, decimals: number) =>
+  value === null || value === undefined ? '-' : value.toFixed(decimals)
+
+const averageRate = (totals: ReceiptTotals) =>
+  totals.quantity > 0 ? totals.amount / totals.quantity : null
+
+// Percentage change, or null when there is nothing to compare against
+const change = (current: number | null, previous: number | null): number | null =>
+  current === null || previous === null || previous === 0 ? null : ((current - previous) / previous) * 100
+
+const COMPARISON_METRICS: { label: string; value: (t: ReceiptTotals) => number | null; format: (v: number | null) => string }[] = [
+  { label: 'Quantity', value: (t) => t.quantity, format: (v) => `${fixed(v, 1)} L` },
+  { label: 'Earnings', value: (t) => t.amount, format: (v) => `₹${fixed(v, 0)}` },
+  { label: 'Avg. Fat', value: (t) => t.avgFat, format: (v) => `${fixed(v, 2)}%` },
+  { label: 'Avg. SNF', value: (t) => t.avgSnf, format: (v) => `${fixed(v, 2)}%` },
+  { label: 'Rate / L', value: averageRate, format: (v) => `₹${fixed(v, 2)}` },
+]
+
+export const Dashboard = () => {
+  const { user } = useAuth()
+  const [receipts, setReceipts] = useState<Receipt[]>([])
+  const [loading, setLoading] = useState(true)
+  const [range, setRange] = useState<Range>('90d')
+  const [granularity, setGranularity] = useState<Extract<Granularity, 'day' | 'week'>>('day')
+
+  useEffect(() => {
+    if (!user) return
+
+    getUserReceipts(user.id)
+      .then(setReceipts)
+      .catch((error) => console.error('Error loading receipts:', error))
+      .finally(() => setLoading(false))
+  }, [user])
+
+  if (loading) {
+    return (
+      <div className="records-loading">
+        <div className="spinner"></div>
+        <p>Loading dashboard...</p>
+      </div>
+    )
+  }
+
+  const days = RANGES.find((r) => r.value === range)?.days ?? null
+  const since = days === null ? null : subDays(new Date(), days)
+  const inRange = since ? receipts.filter((r) => r.date >= since) : receipts
+
+  const quantitySeries = getSeries(inRange, granularity)
+  const qualityTrend = getQualityTrend(inRange)
+  const monthlySeries = getSeries(inRange, 'month')
+  // Weekly rates are readable up to a year; beyond that, monthly
+  const rateSeries = getSeries(inRange, range === 'all' ? 'month' : 'week')
+  const comparisons = compareMonthToDate(receipts)
+
+  return (
+    <div className="records-container">
+      <div className="records-header">
+        <h2>Dashboard</h2>
+        <div className="dashboard-ranges">
+          {RANGES.map((r) => (
+            <button
+              key={r.value}
+              className={`dashboard-range ${range === r.value ? 'active' : ''}`}
+              onClick={() => setRange(r.value)}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {receipts.length === 0 ? (
+        <div className="no-records">
+          <p>No receipts yet</p>
+          <p className="no-records-hint">Charts appear once receipts are saved.</p>
+        </div>
+      ) : (
+        <div className="dashboard-grid">
+          <section className="dashboard-card dashboard-wide">
+            <h3>This Month So Far</h3>
+            <div className="comparison-table">
+              <div className="comparison-row comparison-head">
+                <span></span>
+                <span>Now</span>
+                {comparisons.map((c) => (
+                  <span key={c.label}>vs {c.label}</span>
+                ))}
+              </div>
+              {COMPARISON_METRICS.map((metric) => {
+                const current = metric.value(comparisons[0].current)
+                return (
+                  <div key={metric.label} className="comparison-row">
+                    <span className="comparison-label">{metric.label}</span>
+                    <span className="comparison-value">{metric.format(current)}</span>
+                    {comparisons.map((c) => {
+                      const delta = change(current, metric.value(c.previous))
+                      return (
+                        <span key={c.label} className="comparison-value">
+                          {metric.format(metric.value(c.previous))}
+                          {delta !== null && (
+                            <span className={`comparison-delta ${delta >= 0 ? 'up' : 'down'}`}>
+                              {delta >= 0 ? '▲' : '▼'} {Math.abs(delta).toFixed(0)}%
+                            </span>
+                          )}
+                        </span>
+                      )
+                    })}
+                  </div>
+                )
+              })}
+            </div>
+          </section>
+
+          <section className="dashboard-card dashboard-wide">
+            <div className="dashboard-card-header">
+              <h3>Quantity</h3>
+              <select
+                value={granularity}
+                onChange={(e) => setGranularity(e.target.value as 'day' | 'week')}
+              >
+                <option value="day">Daily</option>
+                <option value="week">Weekly</option>
+              </select>
+            </div>
+            <ResponsiveContainer width="100%" height={240}>
+              <BarChart data={quantitySeries}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="label" fontSize={11} />
+                <YAxis fontSize={11} unit=" L" width={55} />
+                <Tooltip formatter={(value) => `${fixed(Number(value), 1)} L`} />
+                <Bar dataKey="quantity" name="Quantity" fill={PRIMARY} />
+              </BarChart>
+            </ResponsiveContainer>
+          </section>
+
+          <section className="dashboard-card">
+            <h3>Fat %</h3>
+            <ResponsiveContainer width="100%" height={220}>
+              <LineChart data={qualityTrend}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="label" fontSize={11} />
+                <YAxis fontSize={11} domain={['auto', 'auto']} width={40} />
+                <Tooltip formatter={(value) => `${fixed(Number(value), 2)}%`} />
+                <Legend />
+                <Line dataKey="fat" name="Daily" stroke="#cbd5e0" dot={false} connectNulls />
+                <Line dataKey="fatAvg" name="7-day avg." stroke={PRIMARY} strokeWidth={2} dot={false} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </section>
+
+          <section className="dashboard-card">
+            <h3>SNF %</h3>
+            <ResponsiveContainer width="100%" height={220}>
+              <LineChart data={qualityTrend}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="label" fontSize={11} />
+                <YAxis fontSize={11} domain={['auto', 'auto']} width={40} />
+                <Tooltip formatter={(value) => `${fixed(Number(value), 2)}%`} />
+                <Legend />
+                <Line dataKey="snf" name="Daily" stroke="#cbd5e0" dot={false} connectNulls />
+                <Line dataKey="snfAvg" name="7-day avg." stroke={SECONDARY} strokeWidth={2} dot={false} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </section>
+
+          <section className="dashboard-card">
+            <h3>Earnings per Month</h3>
+            <ResponsiveContainer width="100%" height={220}>
+              <BarChart data={monthlySeries}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="label" fontSize={11} />
+                <YAxis fontSize={11} width={60} />
+                <Tooltip formatter={(value) => `₹${fixed(Number(value), 2)}`} />
+                <Bar dataKey="amount" name="Earnings" fill={SECONDARY} />
+              </BarChart>
+            </ResponsiveContainer>
+          </section>
+
+          <section className="dashboard-card">
+            <h3>Average Rate per Litre</h3>
+            <ResponsiveContainer width="100%" height={220}>
+              <LineChart data={rateSeries}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="label" fontSize={11} />
+                <YAxis fontSize={11} domain={['auto', 'auto']} width={45} />
+                <Tooltip formatter={(value) => `₹${fixed(Number(value), 2)}`} />
+                <Line dataKey="rate" name="Rate" stroke={PRIMARY} strokeWidth={2} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </section>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+import { formatReceiptDate, SHIFT_LABELS, type Receipt } from '../services/receiptService'
+
+interface DuplicateReceiptDialogProps {
+  existing: Receipt
+  canReplace: boolean
+  isSaving: boolean
+  onResolve: (resolution: 'replace' | 'keep-both') => void
+  onCancel: () => void
+}
+
+export const DuplicateReceiptDialog = ({
+  existing,
+  canReplace,
+  isSaving,
+  onResolve,
+  onCancel,
+}: DuplicateReceiptDialogProps) => {
+  const shiftLabel = existing.shift ? SHIFT_LABELS[existing.shift].toLowerCase() : 'unknown shift'
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="header-section">
+          <h2>Already Saved?</h2>
+        </div>
+
+        <p className="modal-text">
+          A receipt for {formatReceiptDate(existing.date)} ({shiftLabel}) already exists:{' '}
+          <strong>
+            {existing.quantity} Ltr · ₹{existing.amount}
+          </strong>
+        </p>
+        {!canReplace && (
+          <p className="modal-text modal-hint">Only admins can replace an existing receipt.</p>
+        )}
+
+        <div className="modal-actions">
+          {canReplace && (
+            <button
+              className="save-button"
+              onClick={() => onResolve('replace')}
+              disabled={isSaving}
+            >
+              Replace Existing
+            </button>
+          )}
+          <button
+            className="save-button"
+            onClick={() => onResolve('keep-both')}
+            disabled={isSaving}
+          >
+            Keep Both
+          </button>
+          <button className="reset-button" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
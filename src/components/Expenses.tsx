@@ -0,0 +1,359 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Formik, Form, Field } from 'formik'
+import { format } from 'date-fns'
+import { useAuth } from '../contexts/AuthContext'
+import { getUserReceipts, type Receipt } from '../services/receiptService'
+import {
+  getUserExpenses,
+  saveExpense,
+  stopRecurringExpense,
+  deleteExpense,
+  EXPENSE_CATEGORY_LABELS,
+  RECURRENCE_LABELS,
+  type Expense,
+  type ExpenseCategory,
+  type ExpenseInput,
+  type Recurrence,
+} from '../services/expenseService'
+import { getMonthlyProfitLoss } from '../lib/profitLoss'
+import { compressImage } from '../lib/image'
+import { parseNumber } from '../lib/numbers'
+import { formatDay } from '../lib/dates'
+import './Records.css'
+import './Settings.css'
+import './Payments.css'
+import './Expenses.css'
+
+interface ExpenseFormValues {
+  date: string
+  category: ExpenseCategory
+  amount: string
+  description: string
+  recurrence: Recurrence
+  recursUntil: string
+}
+
+const today = () => format(new Date(), 'yyyy-MM-dd')
+
+const toExpenseInput = (values: ExpenseFormValues): ExpenseInput => {
+  const amount = parseNumber(values.amount)
+  if (amount === null) {
+    throw new Error('Enter the amount spent')
+  }
+
+  return {
+    date: values.date,
+    category: values.category,
+    amount,
+    description: values.description,
+    recurrence: values.recurrence,
+    recurs_until: values.recursUntil || null,
+  }
+}
+
+const money = (value: number) => `₹${value.toFixed(2)}`
+
+const sortByDate = (expenses: Expense[]) =>
+  [...expenses].sort((a, b) => b.date.localeCompare(a.date))
+
+export const Expenses = () => {
+  const { user, can } = useAuth()
+  const [receipts, setReceipts] = useState<Receipt[]>([])
+  const [expenses, setExpenses] = useState<Expense[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [photo, setPhoto] = useState<Blob | null>(null)
+
+  const loadData = useCallback(async () => {
+    if (!user) return
+
+    setLoading(true)
+    try {
+      const [receiptData, expenseData] = await Promise.all([
+        getUserReceipts(user.id),
+        getUserExpenses(user.id),
+      ])
+      setReceipts(receiptData)
+      setExpenses(expenseData)
+    } catch (error) {
+      console.error('Error loading expenses:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    loadData()
+  }, [loadData])
+
+  const handlePhoto = async (file: File | undefined) => {
+    if (!file) {
+      setPhoto(null)
+      return
+    }
+
+    try {
+      setPhoto(await compressImage(file))
+    } catch (error) {
+      console.error('Error reading photo:', error)
+      alert('Could not read that photo')
+    }
+  }
+
+  const handleStop = async (expense: Expense) => {
+    if (!confirm(`Stop repeating ${EXPENSE_CATEGORY_LABELS[expense.category]} from today? Past months are kept.`)) return
+
+    try {
+      const updated = await stopRecurringExpense(expense.id, today())
+      setExpenses(prev => prev.map(e => (e.id === updated.id ? updated : e)))
+    } catch (error) {
+      console.error('Error stopping expense:', error)
+      alert(error instanceof Error ? error.message : 'Failed to update expense')
+    }
+  }
+
+  const handleDelete = async (expense: Expense) => {
+    const warning = expense.recurrence === 'none' ? '' : ' Every repeat of it is removed from the P&L too.'
+    if (!confirm(`Delete the expense of ${money(expense.amount)}?${warning}`)) return
+
+    try {
+      await deleteExpense(expense)
+      setExpenses(prev => prev.filter(e => e.id !== expense.id))
+    } catch (error) {
+      console.error('Error deleting expense:', error)
+      alert(error instanceof Error ? error.message : 'Failed to delete expense')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="records-loading">
+        <div className="spinner"></div>
+        <p>Loading expenses...</p>
+      </div>
+    )
+  }
+
+  const rows = getMonthlyProfitLoss(receipts, expenses, new Date())
+
+  return (
+    <div className="records-container">
+      <div className="records-header">
+        <h2>Expenses</h2>
+      </div>
+
+      <div className="settings-sections">
+        <section className="settings-section">
+          <div className="settings-section-header">
+            <h3>Record an Expense</h3>
+            {can('expense:create') && (
+              <button className="add-button" onClick={() => setShowForm(!showForm)}>
+                {showForm ? 'Cancel' : '+ Add Expense'}
+              </button>
+            )}
+          </div>
+          <p className="settings-hint">
+            Feed, fodder, vet bills, AI charges and labour. Wages and regular orders can repeat every week or month.
+          </p>
+
+          {can('expense:create') && showForm && user && (
+            <Formik<ExpenseFormValues>
+              initialValues={{
+                date: today(),
+                category: 'feed',
+                amount: '',
+                description: '',
+                recurrence: 'none',
+                recursUntil: '',
+              }}
+              onSubmit={async (values, { setSubmitting, resetForm }) => {
+                try {
+                  const saved = await saveExpense(user.id, toExpenseInput(values), photo)
+                  setExpenses(prev => sortByDate([...prev, saved]))
+                  resetForm()
+                  setPhoto(null)
+                  setShowForm(false)
+                } catch (error) {
+                  console.error('Error saving expense:', error)
+                  alert(error instanceof Error ? error.message : 'Failed to save expense')
+                } finally {
+                  setSubmitting(false)
+                }
+              }}
+            >
+              {({ values, isSubmitting }) => (
+                <Form className="ai-form settings-form">
+                  <div className="form-group">
+                    <label>Date</label>
+                    <Field name="date" type="date" required />
+                  </div>
+
+                  <div className="form-group">
+                    <label>Category</label>
+                    <Field as="select" name="category">
+                      {Object.entries(EXPENSE_CATEGORY_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </Field>
+                  </div>
+
+                  <div className="form-group">
+                    <label>Amount (₹)</label>
+                    <Field name="amount" type="number" step="any" min="0" placeholder="0.00" required />
+                  </div>
+
+                  <div className="form-group">
+                    <label>Repeats</label>
+                    <Field as="select" name="recurrence">
+                      {Object.entries(RECURRENCE_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </Field>
+                  </div>
+
+                  {values.recurrence !== 'none' && (
+                    <div className="form-group">
+                      <label>Until</label>
+                      <Field name="recursUntil" type="date" min={values.date} />
+                      <span className="form-hint">Leave empty to keep repeating</span>
+                    </div>
+                  )}
+
+                  <div className="form-group">
+                    <label>Bill Photo</label>
+                    <input
+                      type="file"
+                      accept="image/*"
+                      onChange={(e) => handlePhoto(e.target.files?.[0])}
+                    />
+                  </div>
+
+                  <div className="form-group form-wide">
+                    <label>Description</label>
+                    <Field name="description" type="text" placeholder="e.g., 10 bags cattle feed, milker wages" />
+                  </div>
+
+                  <button type="submit" className="submit-button" disabled={isSubmitting}>
+                    {isSubmitting ? 'Saving...' : 'Save Expense'}
+                  </button>
+                </Form>
+              )}
+            </Formik>
+          )}
+        </section>
+
+        <section className="settings-section">
+          <div className="settings-section-header">
+            <h3>Monthly Profit &amp; Loss</h3>
+          </div>
+          <p className="settings-hint">
+            Receipt amounts against expenses, with what each litre sold cost to produce.
+          </p>
+
+          {rows.length === 0 ? (
+            <p className="settings-hint">No receipts or expenses yet.</p>
+          ) : (
+            <div className="table-wrapper">
+              <table className="records-table profit-loss-table">
+                <thead>
+                  <tr>
+                    <th>Month</th>
+                    <th>Litres</th>
+                    <th>Income</th>
+                    <th>Expenses</th>
+                    <th>Profit</th>
+                    <th>Cost / L</th>
+                    <th>Margin / L</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr key={row.key}>
+                      <td>{row.label}</td>
+                      <td>{row.litres.toFixed(1)}</td>
+                      <td>{money(row.income)}</td>
+                      <td>
+                        {money(row.expenses)}
+                        <span className="expense-breakdown">
+                          {(Object.entries(row.byCategory) as [ExpenseCategory, number][])
+                            .sort(([, a], [, b]) => b - a)
+                            .map(([category, amount]) => `${EXPENSE_CATEGORY_LABELS[category]} ${money(amount)}`)
+                            .join(' · ')}
+                        </span>
+                      </td>
+                      <td className={row.profit < 0 ? 'loss' : undefined}>{money(row.profit)}</td>
+                      <td>{row.costPerLitre === null ? '-' : money(row.costPerLitre)}</td>
+                      <td className={row.marginPerLitre !== null && row.marginPerLitre < 0 ? 'loss' : undefined}>
+                        {row.marginPerLitre === null ? '-' : money(row.marginPerLitre)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        {expenses.length > 0 && (
+          <section className="settings-section">
+            <div className="settings-section-header">
+              <h3>Expense History</h3>
+            </div>
+            <ul className="settings-list">
+              {expenses.map((expense) => {
+                // Started and not yet ended, so stopping today keeps the past occurrences
+                const repeating =
+                  expense.recurrence !== 'none' &&
+                  expense.date <= today() &&
+                  (!expense.recurs_until || expense.recurs_until > today())
+                return (
+                  <li key={expense.id} className="settings-list-item">
+                    <div className="settings-list-info">
+                      <span className="settings-list-title">
+                        {money(expense.amount)} · {EXPENSE_CATEGORY_LABELS[expense.category]}
+                      </span>
+                      <span className="settings-list-detail">
+                        {formatDay(expense.date)}
+                        {expense.recurrence !== 'none' &&
+                          ` · ${RECURRENCE_LABELS[expense.recurrence].toLowerCase()}${
+                            expense.recurs_until ? ` until ${formatDay(expense.recurs_until)}` : ''
+                          }`}
+                        {expense.description && ` · ${expense.description}`}
+                      </span>
+                      {expense.image_url && (
+                        <a
+                          href={expense.image_url}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="settings-list-detail expense-bill"
+                        >
+                          View bill
+                        </a>
+                      )}
+                    </div>
+                    <div className="expense-actions">
+                      {repeating && can('expense:update') && (
+                        <button className="outbox-action" onClick={() => handleStop(expense)}>
+                          Stop repeating
+                        </button>
+                      )}
+                      {can('expense:delete') && (
+                        <button className="delete-button" onClick={() => handleDelete(expense)}>
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+          </section>
+        )}
+      </div>
+    </div>
+  )
+}
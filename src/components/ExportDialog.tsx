@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import { exportReceipts, type ExportFormat } from '../lib/export'
+import { countReceipts, getUserReceipts, type ReceiptQuery } from '../services/receiptService'
+
+interface ExportDialogProps {
+  query: ReceiptQuery
+  onClose: () => void
+}
+
+export const ExportDialog = ({ query, onClose }: ExportDialogProps) => {
+  const { user } = useAuth()
+  // Defaults to the date range and search on the records list
+  const [from, setFrom] = useState(query.from ?? '')
+  const [to, setTo] = useState(query.to ?? '')
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('xlsx')
+  const [isExporting, setIsExporting] = useState(false)
+  const [count, setCount] = useState<number | null>(null)
+
+  const selectedQuery: ReceiptQuery = { ...query, from: from || undefined, to: to || undefined }
+
+  useEffect(() => {
+    if (!user) return
+
+    let cancelled = false
+    setCount(null)
+    countReceipts(user.id, { filters: query.filters, from: from || undefined, to: to || undefined })
+      .then((total) => {
+        if (!cancelled) setCount(total)
+      })
+      .catch((error) => console.error('Error counting receipts:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [user, query.filters, from, to])
+
+  const handleExport = async () => {
+    if (!user) return
+
+    setIsExporting(true)
+    try {
+      const receipts = await getUserReceipts(user.id, selectedQuery)
+      const range = [from, to].filter(Boolean).join('_to_') || 'all'
+      await exportReceipts(receipts, exportFormat, `milk-records_${range}`)
+      onClose()
+    } catch (error) {
+      console.error('Error exporting receipts:', error)
+      alert(error instanceof Error ? error.message : 'Failed to export receipts')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="header-section">
+          <h2>Export Records</h2>
+        </div>
+
+        <div className="ai-form export-form">
+          <div className="form-group">
+            <label>From</label>
+            <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="form-group">
+            <label>To</label>
+            <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <div className="form-group">
+            <label>Format</label>
+            <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as ExportFormat)}>
+              <option value="xlsx">Excel (.xlsx)</option>
+              <option value="csv">CSV</option>
+            </select>
+          </div>
+        </div>
+
+        <p className="modal-text modal-hint">
+          {count === null ? 'Counting receipts' : `${count} receipt${count === 1 ? '' : 's'}`}, with
+          SNF %, a total row for each month and a link to each slip image. The search on the records
+          list applies.
+        </p>
+
+        <div className="modal-actions">
+          <button
+            className="save-button"
+            onClick={handleExport}
+            disabled={isExporting || !count}
+          >
+            {isExporting ? 'Exporting...' : 'Export'}
+          </button>
+          <button className="reset-button" onClick={onClose} disabled={isExporting}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
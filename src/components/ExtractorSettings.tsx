@@ -0,0 +1,52 @@
+import { useState } from 'react'
+import { EXTRACTORS, type ExtractorId } from '../services/extraction'
+import { getSettings, updateSettings } from '../lib/settings'
+
+export const ExtractorSettings = () => {
+  const [selected, setSelected] = useState<ExtractorId>(() => getSettings().extractor)
+
+  const handleSelect = (id: ExtractorId) => {
+    updateSettings({ extractor: id })
+    setSelected(id)
+  }
+
+  return (
+    <section className="settings-section">
+      <div className="settings-section-header">
+        <h3>Receipt Reading</h3>
+      </div>
+      <p className="settings-hint">How photos of slips are turned into values on this device.</p>
+
+      <ul className="settings-list">
+        {EXTRACTORS.map((extractor) => {
+          const unavailable = extractor.unavailableReason()
+
+          return (
+            <li key={extractor.id}>
+              <label
+                className={`settings-list-item settings-option ${
+                  selected === extractor.id ? 'selected' : ''
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="extractor"
+                  value={extractor.id}
+                  checked={selected === extractor.id}
+                  onChange={() => handleSelect(extractor.id)}
+                />
+                <div className="settings-list-info">
+                  <span className="settings-list-title">{extractor.label}</span>
+                  <span className="settings-list-detail">{extractor.description}</span>
+                  {unavailable && (
+                    <span className="settings-list-warning">Not set up on this device</span>
+                  )}
+                </div>
+              </label>
+            </li>
+          )
+        })}
+      </ul>
+    </section>
+  )
+}
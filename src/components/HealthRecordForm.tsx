@@ -0,0 +1,126 @@
+import { Formik, Form, Field } from 'formik'
+import { format } from 'date-fns'
+import { useAuth } from '../contexts/AuthContext'
+import type { Animal } from '../services/animalService'
+import {
+  saveHealthRecord,
+  updateHealthRecord,
+  HEALTH_KIND_LABELS,
+  type HealthKind,
+  type HealthRecord,
+  type HealthRecordInput,
+} from '../services/healthRecordService'
+import { parseNumber } from '../lib/numbers'
+
+interface HealthRecordFormValues {
+  kind: HealthKind
+  date: string
+  drug: string
+  dose: string
+  withdrawalDays: string
+  notes: string
+}
+
+const toHealthRecordInput = (animalId: string, values: HealthRecordFormValues): HealthRecordInput => ({
+  animal_id: animalId,
+  kind: values.kind,
+  date: values.date,
+  drug: values.drug,
+  dose: values.dose,
+  withdrawal_days: Math.max(0, Math.round(parseNumber(values.withdrawalDays) ?? 0)),
+  notes: values.notes,
+})
+
+interface HealthRecordFormProps {
+  animal: Animal
+  // The record being edited; a new one is added when absent
+  record?: HealthRecord
+  onCancel: () => void
+  onSaved: (record: HealthRecord) => void
+}
+
+export const HealthRecordForm = ({ animal, record, onCancel, onSaved }: HealthRecordFormProps) => {
+  const { user } = useAuth()
+
+  return (
+    <div className="ai-form-container">
+      <h3>{record ? 'Edit Health Record' : 'Add Health Record'}</h3>
+      <Formik<HealthRecordFormValues>
+        initialValues={{
+          kind: record?.kind ?? 'treatment',
+          date: record?.date ?? format(new Date(), 'yyyy-MM-dd'),
+          drug: record?.drug ?? '',
+          dose: record?.dose ?? '',
+          withdrawalDays: record ? String(record.withdrawal_days) : '',
+          notes: record?.notes ?? '',
+        }}
+        onSubmit={async (values, { setSubmitting }) => {
+          if (!user) return
+
+          try {
+            const input = toHealthRecordInput(animal.id, values)
+            const saved = record
+              ? await updateHealthRecord(record.id, input)
+              : await saveHealthRecord(user.id, input)
+            onSaved(saved)
+          } catch (error) {
+            console.error('Error saving health record:', error)
+            alert(error instanceof Error ? error.message : 'Failed to save health record')
+          } finally {
+            setSubmitting(false)
+          }
+        }}
+      >
+        {({ isSubmitting }) => (
+          <Form className="ai-form health-form">
+            <div className="form-group">
+              <label>Type</label>
+              <Field as="select" name="kind">
+                {Object.entries(HEALTH_KIND_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </Field>
+            </div>
+
+            <div className="form-group">
+              <label>Date</label>
+              <Field name="date" type="date" required />
+            </div>
+
+            <div className="form-group">
+              <label>Drug / Vaccine</label>
+              <Field name="drug" type="text" placeholder="e.g., Oxytetracycline, FMD vaccine" required />
+            </div>
+
+            <div className="form-group">
+              <label>Dose</label>
+              <Field name="dose" type="text" placeholder="e.g., 20 ml IM" />
+            </div>
+
+            <div className="form-group">
+              <label>Milk Withdrawal (days)</label>
+              <Field name="withdrawalDays" type="number" min="0" step="1" placeholder="0" />
+              <span className="form-hint">From the drug label; 0 if milk can still be sold</span>
+            </div>
+
+            <div className="form-group">
+              <label>Notes</label>
+              <Field name="notes" as="textarea" rows={2} placeholder="Diagnosis, vet, follow-up" />
+            </div>
+
+            <div className="modal-actions form-wide">
+              <button type="submit" className="save-button" disabled={isSubmitting}>
+                {isSubmitting ? 'Saving...' : 'Save'}
+              </button>
+              <button type="button" className="reset-button" onClick={onCancel} disabled={isSubmitting}>
+                Cancel
+              </button>
+            </div>
+          </Form>
+        )}
+      </Formik>
+    </div>
+  )
+}
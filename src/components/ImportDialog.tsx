@@ -0,0 +1,283 @@
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { useAuth } from '../contexts/AuthContext'
+import { parseCsv } from '../lib/csv'
+import {
+  buildImportRows,
+  guessMapping,
+  IMPORT_TARGETS,
+  type ColumnMapping,
+  type ImportRow,
+  type ImportTarget,
+} from '../lib/receiptImport'
+import {
+  bulkInsertReceipts,
+  formatReceiptDate,
+  getUserReceipts,
+  SHIFT_LABELS,
+  type Receipt,
+} from '../services/receiptService'
+import './ImportDialog.css'
+
+interface ImportDialogProps {
+  onClose: () => void
+  onImported: () => void
+}
+
+// Rows shown in the preview; the counts above it cover the whole file
+const PREVIEW_LIMIT = 200
+
+const describeRow = (row: ImportRow): { status: string; className: string } => {
+  if (row.error) return { status: row.error, className: 'error' }
+  if (row.conflict === 'existing') return { status: 'Already saved for this date and shift', className: 'conflict' }
+  if (row.conflict === 'file') return { status: 'Repeats an earlier row', className: 'conflict' }
+  if (row.issues.length > 0) return { status: row.issues.map((issue) => issue.message).join('; '), className: 'warning' }
+  return { status: 'Ready', className: 'ready' }
+}
+
+export const ImportDialog = ({ onClose, onImported }: ImportDialogProps) => {
+  const { user } = useAuth()
+  const [fileName, setFileName] = useState('')
+  const [cells, setCells] = useState<string[][]>([])
+  const [hasHeader, setHasHeader] = useState(true)
+  const [mapping, setMapping] = useState<ColumnMapping>([])
+  const [skipConflicts, setSkipConflicts] = useState(true)
+  const [isImporting, setIsImporting] = useState(false)
+  const [existing, setExisting] = useState<Receipt[]>([])
+  const [isChecking, setIsChecking] = useState(false)
+
+  const header = hasHeader ? cells[0] ?? [] : []
+  const body = hasHeader ? cells.slice(1) : cells
+  const columnCount = Math.max(0, ...cells.map((row) => row.length))
+  const isMapped = mapping.includes('date') && mapping.includes('quantity') && mapping.includes('amount')
+
+  const firstLine = hasHeader ? 2 : 1
+
+  // Only saved receipts within the file's dates can clash with its rows
+  const days = isMapped
+    ? buildImportRows(body, mapping, [], firstLine)
+        .flatMap((row) => (row.receipt ? [format(row.receipt.date, 'yyyy-MM-dd')] : []))
+        .sort()
+    : []
+  const spanFrom = days[0] ?? ''
+  const spanTo = days[days.length - 1] ?? ''
+
+  useEffect(() => {
+    if (!user || !spanFrom) {
+      setExisting([])
+      return
+    }
+
+    let cancelled = false
+    setIsChecking(true)
+    getUserReceipts(user.id, { from: spanFrom, to: spanTo })
+      .then((receipts) => {
+        if (!cancelled) setExisting(receipts)
+      })
+      .catch((error) => console.error('Error loading saved receipts:', error))
+      .finally(() => {
+        if (!cancelled) setIsChecking(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [user, spanFrom, spanTo])
+
+  const rows = isMapped ? buildImportRows(body, mapping, existing, firstLine) : []
+  const toImport = rows.filter((row) => row.receipt && !(skipConflicts && row.conflict))
+  const count = (predicate: (row: ImportRow) => boolean) => rows.filter(predicate).length
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+
+    const parsed = parseCsv(await file.text())
+    if (parsed.length === 0) {
+      alert('That file has no rows')
+      return
+    }
+
+    const guessed = guessMapping(parsed[0])
+    setFileName(file.name)
+    setCells(parsed)
+    // No recognisable column names means the first row is data
+    setHasHeader(guessed.some(Boolean))
+    setMapping(guessed.some(Boolean) ? guessed : [])
+  }
+
+  const handleMappingChange = (column: number, target: ImportTarget | '') => {
+    setMapping((prev) => {
+      // A field can only come from one column
+      const next = Array.from({ length: columnCount }, (_, i) =>
+        prev[i] === target && target !== '' ? '' : prev[i] ?? ''
+      )
+      next[column] = target
+      return next
+    })
+  }
+
+  const handleImport = async () => {
+    if (!user || toImport.length === 0) return
+
+    const withIssues = toImport.filter((row) => row.issues.length > 0).length
+    if (withIssues > 0 && !confirm(`${withIssues} rows have values that don't add up. Import them anyway?`)) {
+      return
+    }
+
+    setIsImporting(true)
+    try {
+      const inserted = await bulkInsertReceipts(
+        user.id,
+        toImport.map((row) => row.receipt!)
+      )
+      alert(`Imported ${inserted} receipts.`)
+      onImported()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to import receipts')
+      // Whatever made it in should still show up
+      onImported()
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal import-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="header-section">
+          <h2>Import Receipts</h2>
+        </div>
+
+        <div className="import-file">
+          <label className="import-file-button">
+            {fileName ? 'Choose another file' : 'Choose CSV file'}
+            <input
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv"
+              className="file-input"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+          {fileName && <span className="import-file-name">{fileName}</span>}
+        </div>
+        <p className="modal-text modal-hint">
+          Save a spreadsheet or society statement as CSV. Each row becomes one receipt, marked as
+          imported; the date, quantity and amount columns are required.
+        </p>
+
+        {cells.length > 0 && (
+          <>
+            <label className="import-option">
+              <input
+                type="checkbox"
+                checked={hasHeader}
+                onChange={(e) => setHasHeader(e.target.checked)}
+              />
+              First row is column names
+            </label>
+
+            <div className="import-mapping">
+              {Array.from({ length: columnCount }, (_, column) => (
+                <div key={column} className="import-mapping-item">
+                  <span className="import-mapping-name">
+                    {header[column] || `Column ${column + 1}`}
+                  </span>
+                  <span className="import-mapping-sample">{body[0]?.[column] || '—'}</span>
+                  <select
+                    value={mapping[column] ?? ''}
+                    onChange={(e) => handleMappingChange(column, e.target.value as ImportTarget | '')}
+                  >
+                    <option value="">Ignore</option>
+                    {IMPORT_TARGETS.map((target) => (
+                      <option key={target.value} value={target.value}>
+                        {target.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {cells.length > 0 && !isMapped && (
+          <p className="modal-text modal-hint">Choose the date, quantity and amount columns to see a preview.</p>
+        )}
+
+        {isMapped && (
+          <>
+            <div className="import-summary">
+              <span className="import-count ready">{count((r) => !!r.receipt && !r.conflict && r.issues.length === 0)} ready</span>
+              <span className="import-count warning">{count((r) => !!r.receipt && !r.conflict && r.issues.length > 0)} with warnings</span>
+              <span className="import-count conflict">{count((r) => !!r.conflict)} clashing</span>
+              <span className="import-count error">{count((r) => !!r.error)} unreadable</span>
+            </div>
+
+            <label className="import-option">
+              <input
+                type="checkbox"
+                checked={skipConflicts}
+                onChange={(e) => setSkipConflicts(e.target.checked)}
+              />
+              Skip rows that clash with a saved receipt or an earlier row
+            </label>
+
+            <div className="import-preview">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Line</th>
+                    <th>Date</th>
+                    <th>Shift</th>
+                    <th>Qty</th>
+                    <th>Fat</th>
+                    <th>CLR</th>
+                    <th>Amt</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.slice(0, PREVIEW_LIMIT).map((row) => {
+                    const { status, className } = describeRow(row)
+                    const receipt = row.receipt
+                    return (
+                      <tr key={row.line} className={className}>
+                        <td>{row.line}</td>
+                        <td>{receipt ? formatReceiptDate(receipt.date) : row.data.date ?? '-'}</td>
+                        <td>{receipt?.shift ? SHIFT_LABELS[receipt.shift] : '-'}</td>
+                        <td>{receipt?.quantity ?? row.data.quantity ?? '-'}</td>
+                        <td>{receipt?.fat ?? '-'}</td>
+                        <td>{receipt?.clr ?? '-'}</td>
+                        <td>{receipt?.amount ?? row.data.amount ?? '-'}</td>
+                        <td className="import-status">{status}</td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+              {rows.length > PREVIEW_LIMIT && (
+                <p className="modal-hint">Showing the first {PREVIEW_LIMIT} of {rows.length} rows.</p>
+              )}
+            </div>
+          </>
+        )}
+
+        <div className="modal-actions">
+          <button
+            className="save-button"
+            onClick={handleImport}
+            disabled={isImporting || isChecking || toImport.length === 0}
+          >
+            {isImporting
+              ? 'Importing...'
+              : isChecking
+                ? 'Checking saved receipts...'
+                : `Import ${toImport.length} Receipts`}
+          </button>
+          <button className="reset-button" onClick={onClose} disabled={isImporting}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
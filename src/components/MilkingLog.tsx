@@ -0,0 +1,303 @@
+import { useCallback, useEffect, useState } from 'react'
+import { format, subDays } from 'date-fns'
+import { useAuth } from '../contexts/AuthContext'
+import { getUserAnimals, type Animal } from '../services/animalService'
+import { getMilkings, saveHerdMilking, type Milking, type MilkingEntry } from '../services/milkingService'
+import { getUserReceipts, SHIFT_LABELS, type Receipt, type Shift } from '../services/receiptService'
+import { getUserHealthRecords, type HealthRecord } from '../services/healthRecordService'
+import { checkAgainstReceipts, getYieldChanges, type HerdCheckStatus } from '../lib/milking'
+import { getWithdrawals } from '../lib/health'
+import { parseNumber } from '../lib/numbers'
+import { WithdrawalBanner } from './WithdrawalBanner'
+import { formatDay } from '../lib/dates'
+import './MilkingLog.css'
+
+// Days of history loaded for the herd check and weekly yield changes
+const HISTORY_DAYS = 28
+
+const CHECK_LABELS: Record<HerdCheckStatus, string> = {
+  match: 'Matches',
+  short: 'Dairy recorded less',
+  over: 'Dairy recorded more',
+  'no-receipt': 'No receipt',
+}
+
+type EntryValues = Record<string, { litres: string; fat: string }>
+
+const toDay = (date: Date) => format(date, 'yyyy-MM-dd')
+
+export const MilkingLog = () => {
+  const { user, can } = useAuth()
+  const canCreate = can('milking:create')
+  const [animals, setAnimals] = useState<Animal[]>([])
+  const [milkings, setMilkings] = useState<Milking[]>([])
+  const [receipts, setReceipts] = useState<Receipt[]>([])
+  const [healthRecords, setHealthRecords] = useState<HealthRecord[]>([])
+  const [loading, setLoading] = useState(true)
+  const [date, setDate] = useState(() => toDay(new Date()))
+  const [shift, setShift] = useState<Shift>(() => (new Date().getHours() < 12 ? 'morning' : 'evening'))
+  const [values, setValues] = useState<EntryValues>({})
+  const [isSaving, setIsSaving] = useState(false)
+
+  // History always covers the last few weeks, and reaches back to the day being entered
+  const historyStart = toDay(subDays(new Date(), HISTORY_DAYS - 1))
+  const from = date && date < historyStart ? date : historyStart
+
+  const loadData = useCallback(async () => {
+    if (!user) return
+
+    setLoading(true)
+    try {
+      const [herd, logged, slips, health] = await Promise.all([
+        getUserAnimals(user.id),
+        getMilkings(user.id, { from }),
+        getUserReceipts(user.id, { from }),
+        getUserHealthRecords(user.id),
+      ])
+      setAnimals(herd)
+      setMilkings(logged)
+      setReceipts(slips)
+      setHealthRecords(health)
+    } catch (error) {
+      console.error('Error loading milkings:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user, from])
+
+  useEffect(() => {
+    loadData()
+  }, [loadData])
+
+  // Start from what is already saved for this milking
+  useEffect(() => {
+    setValues(
+      Object.fromEntries(
+        milkings
+          .filter((m) => m.date === date && m.shift === shift)
+          .map((m) => [m.animal_id, { litres: String(m.litres), fat: m.fat === null ? '' : String(m.fat) }])
+      )
+    )
+  }, [milkings, date, shift])
+
+  const saved = milkings.filter((m) => m.date === date && m.shift === shift)
+  // Milking animals, plus any other animal that already has an entry for this milking
+  const rows = animals.filter(
+    (a) => a.status === 'milking' || saved.some((m) => m.animal_id === a.id)
+  )
+  // Their milk is still logged, but must not go to the dairy
+  const withdrawals = getWithdrawals(healthRecords, date)
+  const herdTotal = Object.values(values).reduce((sum, v) => sum + (parseNumber(v.litres) ?? 0), 0)
+  const dairyTotal = receipts
+    .filter((r) => toDay(r.date) === date && (r.shift === shift || r.shift === null))
+    .reduce((sum, r) => sum + r.quantity, 0)
+
+  const setValue = (animalId: string, field: 'litres' | 'fat', value: string) => {
+    setValues((prev) => ({
+      ...prev,
+      [animalId]: { ...(prev[animalId] ?? { litres: '', fat: '' }), [field]: value },
+    }))
+  }
+
+  const handleSave = async () => {
+    if (!user) return
+
+    const entries: MilkingEntry[] = []
+    const cleared: string[] = []
+    for (const animal of rows) {
+      const litres = parseNumber(values[animal.id]?.litres)
+      if (litres !== null) {
+        entries.push({ animal_id: animal.id, litres, fat: parseNumber(values[animal.id]?.fat) })
+      } else if (saved.some((m) => m.animal_id === animal.id)) {
+        cleared.push(animal.id)
+      }
+    }
+
+    setIsSaving(true)
+    try {
+      const result = await saveHerdMilking(user.id, date, shift, entries, cleared)
+      setMilkings((prev) => [
+        ...prev.filter((m) => !(m.date === date && m.shift === shift)),
+        ...result,
+      ])
+    } catch (error) {
+      console.error('Error saving milkings:', error)
+      alert(error instanceof Error ? error.message : 'Failed to save milkings')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="records-loading">
+        <div className="spinner"></div>
+        <p>Loading milkings...</p>
+      </div>
+    )
+  }
+
+  const animalTag = (id: string) => animals.find((a) => a.id === id)?.tag ?? '?'
+  const checks = checkAgainstReceipts(
+    milkings.filter((m) => m.date >= historyStart),
+    receipts,
+    healthRecords
+  ).slice(0, 14)
+  const changes = getYieldChanges(milkings, new Date())
+
+  return (
+    <div className="records-container">
+      <div className="records-header">
+        <h2>Milking</h2>
+      </div>
+
+      <section className="milking-card">
+        <div className="milking-controls">
+          <input type="date" value={date} max={toDay(new Date())} onChange={(e) => setDate(e.target.value)} />
+          <div className="milking-shifts">
+            {(Object.keys(SHIFT_LABELS) as Shift[]).map((s) => (
+              <button
+                key={s}
+                className={`milking-shift ${shift === s ? 'active' : ''}`}
+                onClick={() => setShift(s)}
+              >
+                {SHIFT_LABELS[s]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <WithdrawalBanner withdrawals={withdrawals} message="Keep this milk out of the dairy can" />
+
+        {rows.length === 0 ? (
+          <p className="milking-empty">
+            No milking animals. Add them in the Animals tab with the status "Milking".
+          </p>
+        ) : (
+          <table className="milking-table">
+            <thead>
+              <tr>
+                <th>Animal</th>
+                <th>Litres</th>
+                <th>Fat %</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((animal) => (
+                <tr key={animal.id}>
+                  <td>
+                    <strong>{animal.tag}</strong>
+                    {animal.name && <span className="milking-name"> {animal.name}</span>}
+                    {withdrawals.some((w) => w.animal.id === animal.id) && (
+                      <span className="milking-withheld">Withheld</span>
+                    )}
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      step="any"
+                      min="0"
+                      inputMode="decimal"
+                      value={values[animal.id]?.litres ?? ''}
+                      onChange={(e) => setValue(animal.id, 'litres', e.target.value)}
+                      disabled={!canCreate}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      step="any"
+                      min="0"
+                      inputMode="decimal"
+                      value={values[animal.id]?.fat ?? ''}
+                      onChange={(e) => setValue(animal.id, 'fat', e.target.value)}
+                      placeholder="-"
+                      disabled={!canCreate}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td>Herd total</td>
+                <td>{herdTotal.toFixed(1)} L</td>
+                <td className="milking-dairy">
+                  {dairyTotal > 0 ? `Slip: ${dairyTotal.toFixed(1)} L` : 'No slip yet'}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+
+        {canCreate && rows.length > 0 && (
+          <button className="save-button" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : `Save ${SHIFT_LABELS[shift]} Milking`}
+          </button>
+        )}
+      </section>
+
+      {checks.length > 0 && (
+        <section className="milking-card">
+          <h3>Herd vs Dairy</h3>
+          <p className="milking-hint">
+            Each day's logged milk, less any withheld, against the quantity on that day's receipts.
+          </p>
+          <table className="milking-table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Milked</th>
+                <th>Dairy</th>
+                <th>Diff.</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {checks.map((check) => (
+                <tr key={check.date}>
+                  <td>{formatDay(check.date)}</td>
+                  <td>{check.milked.toFixed(1)}</td>
+                  <td>{check.dairy === null ? '-' : check.dairy.toFixed(1)}</td>
+                  <td>{check.difference === null ? '-' : check.difference.toFixed(1)}</td>
+                  <td>
+                    <span className={`milking-check ${check.status}`}>{CHECK_LABELS[check.status]}</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {changes.length > 0 && (
+        <section className="milking-card">
+          <h3>This Week vs Last Week</h3>
+          <p className="milking-hint">Average litres per day for each animal, biggest drop first.</p>
+          <table className="milking-table">
+            <thead>
+              <tr>
+                <th>Animal</th>
+                <th>Last week</th>
+                <th>This week</th>
+                <th>Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changes.map((c) => (
+                <tr key={c.animalId}>
+                  <td>{animalTag(c.animalId)}</td>
+                  <td>{c.previous === null ? '-' : c.previous.toFixed(1)}</td>
+                  <td>{c.recent === null ? '-' : c.recent.toFixed(1)}</td>
+                  <td className={c.change !== null && c.change < -10 ? 'milking-drop' : undefined}>
+                    {c.change === null ? '-' : `${c.change > 0 ? '+' : ''}${c.change.toFixed(0)}%`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </div>
+  )
+}
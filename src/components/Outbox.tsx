@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react'
+import { isValid } from 'date-fns'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  getOutboxEntries,
+  subscribeToOutbox,
+  syncOutbox,
+  removeOutboxEntry,
+  clearSyncedEntries,
+  type OutboxEntry,
+} from '../services/outboxService'
+import { formatReceiptDate } from '../services/receiptService'
+
+const STATUS_LABELS: Record<OutboxEntry['status'], string> = {
+  pending: 'Pending',
+  synced: 'Synced',
+  failed: 'Failed',
+}
+
+export const Outbox = () => {
+  const { user } = useAuth()
+  const [entries, setEntries] = useState<OutboxEntry[]>([])
+
+  useEffect(() => {
+    if (!user) return
+
+    getOutboxEntries(user.id)
+      .then(setEntries)
+      .catch((error) => console.error('Error loading outbox:', error))
+
+    return subscribeToOutbox((all) =>
+      setEntries(all.filter((entry) => entry.userId === user.id))
+    )
+  }, [user])
+
+  if (!user || entries.length === 0) return null
+
+  const handleClearSynced = async () => {
+    try {
+      await clearSyncedEntries(user.id)
+    } catch (error) {
+      console.error('Error clearing synced receipts:', error)
+      alert('Failed to clear synced receipts')
+    }
+  }
+
+  const handleRemove = async (entry: OutboxEntry) => {
+    if (!confirm('Discard this receipt? It has not been uploaded.')) return
+
+    try {
+      await removeOutboxEntry(entry.clientId)
+    } catch (error) {
+      console.error('Error discarding receipt:', error)
+      alert('Failed to discard receipt')
+    }
+  }
+
+  const hasSynced = entries.some((entry) => entry.status === 'synced')
+  const hasUnsynced = entries.some((entry) => entry.status !== 'synced')
+
+  return (
+    <div className="outbox">
+      <div className="outbox-header">
+        <h3>Saved Receipts</h3>
+        <div className="outbox-actions">
+          {hasUnsynced && (
+            <button
+              type="button"
+              className="outbox-action"
+              onClick={() => syncOutbox(user.id)}
+              disabled={!navigator.onLine}
+            >
+              Sync now
+            </button>
+          )}
+          {hasSynced && (
+            <button
+              type="button"
+              className="outbox-action"
+              onClick={handleClearSynced}
+            >
+              Clear synced
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ul className="outbox-list">
+        {entries.map((entry) => (
+          <li key={entry.clientId} className="outbox-item">
+            <div className="outbox-item-info">
+              <span className="outbox-item-date">
+                {isValid(entry.receiptData.date) ? formatReceiptDate(entry.receiptData.date) : 'Unreadable date'}
+              </span>
+              <span className="outbox-item-detail">
+                {entry.receiptData.quantity} Ltr · ₹{entry.receiptData.amount}
+              </span>
+              {entry.status === 'failed' && entry.error && (
+                <span className="outbox-item-error">{entry.error}</span>
+              )}
+            </div>
+            <span className={`outbox-badge ${entry.status}`}>
+              {STATUS_LABELS[entry.status]}
+            </span>
+            {entry.status === 'failed' && (
+              <button
+                type="button"
+                className="outbox-remove"
+                onClick={() => handleRemove(entry)}
+                title="Discard"
+              >
+                ✕
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
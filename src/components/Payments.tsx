@@ -0,0 +1,324 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Formik, Form, Field } from 'formik'
+import { format, parse } from 'date-fns'
+import { useAuth } from '../contexts/AuthContext'
+import { getUserReceipts, type Receipt } from '../services/receiptService'
+import {
+  getUserPayments,
+  savePayment,
+  deletePayment,
+  type Payment,
+  type PaymentInput,
+} from '../services/paymentService'
+import { getPeriod, periodFromRange, PERIOD_KIND_LABELS, type PeriodKind } from '../lib/periods'
+import { reconcile, type ReconciliationStatus } from '../lib/reconciliation'
+import { parseNumber } from '../lib/numbers'
+import './Records.css'
+import './Settings.css'
+import './Payments.css'
+
+interface PaymentFormValues {
+  kind: PeriodKind
+  dateInCycle: string
+  paidOn: string
+  amount: string
+  deductions: string
+  reference: string
+  notes: string
+}
+
+const STATUS_LABELS: Record<ReconciliationStatus, string> = {
+  paid: 'Paid',
+  short: 'Short',
+  over: 'Over',
+  unpaid: 'Unpaid',
+  open: 'Open',
+}
+
+const today = () => format(new Date(), 'yyyy-MM-dd')
+
+const toPaymentInput = (values: PaymentFormValues): PaymentInput => {
+  const amount = parseNumber(values.amount)
+  if (amount === null) {
+    throw new Error('Enter the amount received')
+  }
+
+  const period = getPeriod(parse(values.dateInCycle, 'yyyy-MM-dd', new Date()), values.kind)
+  return {
+    period_start: format(period.start, 'yyyy-MM-dd'),
+    period_end: format(period.end, 'yyyy-MM-dd'),
+    paid_on: values.paidOn || null,
+    amount,
+    deductions: parseNumber(values.deductions) ?? 0,
+    reference: values.reference.trim() || null,
+    notes: values.notes.trim() || null,
+  }
+}
+
+const money = (value: number) => `₹${value.toFixed(2)}`
+
+export const Payments = () => {
+  const { user, can } = useAuth()
+  const [receipts, setReceipts] = useState<Receipt[]>([])
+  const [payments, setPayments] = useState<Payment[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [kind, setKind] = useState<PeriodKind | null>(null)
+
+  const loadData = useCallback(async () => {
+    if (!user) return
+
+    setLoading(true)
+    try {
+      const [receiptData, paymentData] = await Promise.all([
+        getUserReceipts(user.id),
+        getUserPayments(user.id),
+      ])
+      setReceipts(receiptData)
+      setPayments(paymentData)
+    } catch (error) {
+      console.error('Error loading payments:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    loadData()
+  }, [loadData])
+
+  // Unpaid receipts are grouped like the latest payment unless the user picks otherwise
+  const cycleKind =
+    kind ?? (payments[0] ? periodFromRange(payments[0].period_start, payments[0].period_end).kind : 'cycle')
+  const rows = reconcile(receipts, payments, cycleKind)
+
+  const handleDelete = async (payment: Payment) => {
+    if (!payment.id || !confirm(`Delete the payment of ${money(payment.amount)}?`)) return
+
+    try {
+      await deletePayment(payment.id)
+      setPayments(prev => prev.filter(p => p.id !== payment.id))
+    } catch (error) {
+      console.error('Error deleting payment:', error)
+      alert(error instanceof Error ? error.message : 'Failed to delete payment')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="records-loading">
+        <div className="spinner"></div>
+        <p>Loading payments...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="records-container">
+      <div className="records-header">
+        <h2>Payments</h2>
+      </div>
+
+      <div className="settings-sections">
+        <section className="settings-section">
+          <div className="settings-section-header">
+            <h3>Record a Payment</h3>
+            {can('payment:create') && (
+              <button className="add-button" onClick={() => setShowForm(!showForm)}>
+                {showForm ? 'Cancel' : '+ Add Payment'}
+              </button>
+            )}
+          </div>
+          <p className="settings-hint">
+            Enter each credit from the dairy against the cycle it pays for.
+          </p>
+
+          {can('payment:create') && showForm && user && (
+            <Formik<PaymentFormValues>
+              initialValues={{
+                kind: cycleKind,
+                dateInCycle: today(),
+                paidOn: today(),
+                amount: '',
+                deductions: '',
+                reference: '',
+                notes: '',
+              }}
+              onSubmit={async (values, { setSubmitting, resetForm }) => {
+                try {
+                  const saved = await savePayment(user.id, toPaymentInput(values))
+                  setPayments(prev =>
+                    [...prev, saved].sort((a, b) => b.period_start.localeCompare(a.period_start))
+                  )
+                  resetForm()
+                  setShowForm(false)
+                } catch (error) {
+                  console.error('Error saving payment:', error)
+                  alert(error instanceof Error ? error.message : 'Failed to save payment')
+                } finally {
+                  setSubmitting(false)
+                }
+              }}
+            >
+              {({ values, isSubmitting }) => (
+                <Form className="ai-form settings-form">
+                  <div className="form-group">
+                    <label>Cycle</label>
+                    <Field as="select" name="kind">
+                      {Object.entries(PERIOD_KIND_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </Field>
+                  </div>
+
+                  <div className="form-group">
+                    <label>Any Day in the Cycle</label>
+                    <Field name="dateInCycle" type="date" required />
+                    {values.dateInCycle && (
+                      <span className="payment-cycle-label">
+                        {getPeriod(parse(values.dateInCycle, 'yyyy-MM-dd', new Date()), values.kind).label}
+                      </span>
+                    )}
+                  </div>
+
+                  <div className="form-group">
+                    <label>Paid On</label>
+                    <Field name="paidOn" type="date" />
+                  </div>
+
+                  <div className="form-group">
+                    <label>Amount Received (₹)</label>
+                    <Field name="amount" type="number" step="any" placeholder="0.00" required />
+                  </div>
+
+                  <div className="form-group">
+                    <label>Deductions (₹)</label>
+                    <Field name="deductions" type="number" step="any" placeholder="Feed, loan, fees" />
+                  </div>
+
+                  <div className="form-group">
+                    <label>Reference</label>
+                    <Field name="reference" type="text" placeholder="UTR / cheque no." />
+                  </div>
+
+                  <div className="form-group form-wide">
+                    <label>Notes</label>
+                    <Field name="notes" type="text" />
+                  </div>
+
+                  <button type="submit" className="submit-button" disabled={isSubmitting}>
+                    {isSubmitting ? 'Saving...' : 'Save Payment'}
+                  </button>
+                </Form>
+              )}
+            </Formik>
+          )}
+        </section>
+
+        <section className="settings-section">
+          <div className="settings-section-header">
+            <h3>Reconciliation</h3>
+            <select
+              className="payment-kind-select"
+              value={cycleKind}
+              onChange={(e) => setKind(e.target.value as PeriodKind)}
+              title="How to group receipts no payment covers yet"
+            >
+              {Object.entries(PERIOD_KIND_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <p className="settings-hint">
+            Receipt totals for each cycle against what was received plus deductions.
+          </p>
+
+          {rows.length === 0 ? (
+            <p className="settings-hint">No receipts or payments yet.</p>
+          ) : (
+            <div className="table-wrapper">
+              <table className="records-table reconciliation-table">
+                <thead>
+                  <tr>
+                    <th>Cycle</th>
+                    <th>Slips</th>
+                    <th>Receipts</th>
+                    <th>Received</th>
+                    <th>Deductions</th>
+                    <th>Difference</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr key={row.period.label + row.period.start.getTime()}>
+                      <td>{row.period.label}</td>
+                      <td>
+                        {row.receipts.length}
+                        {row.missingSlips > 0 && (
+                          <span className="missing-slips" title="Shifts in this cycle with no slip">
+                            {' '}({row.missingSlips} missing)
+                          </span>
+                        )}
+                      </td>
+                      <td>{money(row.receiptTotal)}</td>
+                      <td>
+                        {row.payments.length > 0 ? money(row.received) : '-'}
+                        {row.payments.map((payment) => payment.reference && (
+                          <span key={payment.id} className="payment-reference">{payment.reference}</span>
+                        ))}
+                      </td>
+                      <td>{row.payments.length > 0 ? money(row.deductions) : '-'}</td>
+                      <td className={row.difference !== null && row.status === 'short' ? 'short-cell underpaid' : ''}>
+                        {row.difference !== null ? money(row.difference) : '-'}
+                      </td>
+                      <td>
+                        <span className={`payment-status ${row.status}`}>{STATUS_LABELS[row.status]}</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        {payments.length > 0 && (
+          <section className="settings-section">
+            <div className="settings-section-header">
+              <h3>Payment History</h3>
+            </div>
+            <ul className="settings-list">
+              {payments.map((payment) => (
+                <li key={payment.id} className="settings-list-item">
+                  <div className="settings-list-info">
+                    <span className="settings-list-title">
+                      {money(payment.amount)}
+                      {payment.deductions > 0 && ` + ${money(payment.deductions)} deducted`}
+                    </span>
+                    <span className="settings-list-detail">
+                      {periodFromRange(payment.period_start, payment.period_end).label}
+                      {payment.paid_on &&
+                        ` · paid ${format(parse(payment.paid_on, 'yyyy-MM-dd', new Date()), 'dd/MM/yyyy')}`}
+                      {payment.reference && ` · ${payment.reference}`}
+                    </span>
+                    {payment.notes && <span className="settings-list-detail">{payment.notes}</span>}
+                  </div>
+                  {can('payment:delete') && (
+                    <button className="delete-button" onClick={() => handleDelete(payment)}>
+                      Delete
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </div>
+  )
+}
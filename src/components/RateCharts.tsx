@@ -0,0 +1,224 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Formik, Form, Field } from 'formik'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  getRateCharts,
+  saveRateChart,
+  deleteRateChart,
+  type RateChart,
+  type RateChartInput,
+} from '../services/rateChartService'
+import { parseRateGrid } from '../lib/rateChart'
+import { parseNumber } from '../lib/numbers'
+import { formatDay } from '../lib/dates'
+
+interface RateChartFormValues {
+  name: string
+  kind: RateChart['kind']
+  effectiveFrom: string
+  baseRate: string
+  fatFactor: string
+  snfFactor: string
+  gridText: string
+}
+
+const toChartInput = (values: RateChartFormValues): RateChartInput => {
+  if (values.kind === 'grid') {
+    return {
+      name: values.name.trim(),
+      kind: 'grid',
+      effective_from: values.effectiveFrom,
+      base_rate: null,
+      fat_factor: null,
+      snf_factor: null,
+      grid: parseRateGrid(values.gridText),
+    }
+  }
+
+  const fatFactor = parseNumber(values.fatFactor)
+  const snfFactor = parseNumber(values.snfFactor)
+  if (fatFactor === null || snfFactor === null) {
+    throw new Error('Enter both the fat and SNF factors')
+  }
+
+  return {
+    name: values.name.trim(),
+    kind: 'formula',
+    effective_from: values.effectiveFrom,
+    base_rate: parseNumber(values.baseRate),
+    fat_factor: fatFactor,
+    snf_factor: snfFactor,
+    grid: null,
+  }
+}
+
+const describeChart = (chart: RateChart): string => {
+  if (chart.kind === 'grid' && chart.grid) {
+    const { fat, snf } = chart.grid
+    return `Grid: fat ${Math.min(...fat)}–${Math.max(...fat)}, SNF ${Math.min(...snf)}–${Math.max(...snf)}`
+  }
+  const base = chart.base_rate ?? 'slip base rate'
+  return `${base} × (fat × ${chart.fat_factor} + SNF × ${chart.snf_factor})`
+}
+
+export const RateCharts = () => {
+  const { user, can } = useAuth()
+  const canManage = can('rate-chart:manage')
+  const [charts, setCharts] = useState<RateChart[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+
+  const loadCharts = useCallback(async () => {
+    setLoading(true)
+    try {
+      setCharts(await getRateCharts())
+    } catch (error) {
+      console.error('Error loading rate charts:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadCharts()
+  }, [loadCharts])
+
+  const handleDelete = async (chart: RateChart) => {
+    if (!chart.id || !confirm(`Delete the rate chart "${chart.name}"?`)) return
+
+    try {
+      await deleteRateChart(chart.id)
+      setCharts(prev => prev.filter(c => c.id !== chart.id))
+    } catch (error) {
+      console.error('Error deleting rate chart:', error)
+      alert(error instanceof Error ? error.message : 'Failed to delete rate chart')
+    }
+  }
+
+  return (
+    <section className="settings-section">
+      <div className="settings-section-header">
+        <h3>Rate Charts</h3>
+        {canManage && (
+          <button className="add-button" onClick={() => setShowForm(!showForm)}>
+            {showForm ? 'Cancel' : '+ Add Chart'}
+          </button>
+        )}
+      </div>
+      <p className="settings-hint">
+        The chart in force on a receipt's date is used to check the rate the dairy paid.
+      </p>
+
+      {canManage && showForm && user && (
+        <Formik<RateChartFormValues>
+          initialValues={{
+            name: '',
+            kind: 'formula',
+            effectiveFrom: new Date().toISOString().split('T')[0],
+            baseRate: '',
+            fatFactor: '',
+            snfFactor: '',
+            gridText: '',
+          }}
+          onSubmit={async (values, { setSubmitting, resetForm }) => {
+            try {
+              const saved = await saveRateChart(user.id, toChartInput(values))
+              setCharts(prev =>
+                [...prev, saved].sort((a, b) => b.effective_from.localeCompare(a.effective_from))
+              )
+              resetForm()
+              setShowForm(false)
+            } catch (error) {
+              console.error('Error saving rate chart:', error)
+              alert(error instanceof Error ? error.message : 'Failed to save rate chart')
+            } finally {
+              setSubmitting(false)
+            }
+          }}
+        >
+          {({ values, isSubmitting }) => (
+            <Form className="ai-form settings-form">
+              <div className="form-group">
+                <label>Name</label>
+                <Field name="name" type="text" placeholder="e.g., Society chart 2025" required />
+              </div>
+
+              <div className="form-group">
+                <label>Effective From</label>
+                <Field name="effectiveFrom" type="date" required />
+              </div>
+
+              <div className="form-group">
+                <label>Type</label>
+                <Field as="select" name="kind">
+                  <option value="formula">Formula</option>
+                  <option value="grid">Fat × SNF grid</option>
+                </Field>
+              </div>
+
+              {values.kind === 'formula' ? (
+                <>
+                  <div className="form-group">
+                    <label>Base Rate (blank = from slip)</label>
+                    <Field name="baseRate" type="number" step="any" placeholder="0.705" />
+                  </div>
+                  <div className="form-group">
+                    <label>Fat Factor</label>
+                    <Field name="fatFactor" type="number" step="any" placeholder="6.5" required />
+                  </div>
+                  <div className="form-group">
+                    <label>SNF Factor</label>
+                    <Field name="snfFactor" type="number" step="any" placeholder="4" required />
+                  </div>
+                  <p className="settings-hint form-wide">
+                    Rate per litre = base rate × (fat % × fat factor + SNF % × SNF factor)
+                  </p>
+                </>
+              ) : (
+                <div className="form-group form-wide">
+                  <label>Grid (paste from a spreadsheet)</label>
+                  <Field
+                    as="textarea"
+                    name="gridText"
+                    rows={8}
+                    placeholder={'FAT/SNF,8.0,8.1,8.2\n3.5,30.10,30.40,30.70\n3.6,30.60,30.90,31.20'}
+                    required
+                  />
+                </div>
+              )}
+
+              <button type="submit" className="submit-button" disabled={isSubmitting}>
+                {isSubmitting ? 'Saving...' : 'Save Chart'}
+              </button>
+            </Form>
+          )}
+        </Formik>
+      )}
+
+      {loading ? (
+        <p className="settings-hint">Loading rate charts...</p>
+      ) : charts.length === 0 ? (
+        <p className="settings-hint">No rate charts yet.</p>
+      ) : (
+        <ul className="settings-list">
+          {charts.map((chart) => (
+            <li key={chart.id} className="settings-list-item">
+              <div className="settings-list-info">
+                <span className="settings-list-title">{chart.name}</span>
+                <span className="settings-list-detail">
+                  From {formatDay(chart.effective_from)}
+                </span>
+                <span className="settings-list-detail">{describeChart(chart)}</span>
+              </div>
+              {canManage && (
+                <button className="delete-button" onClick={() => handleDelete(chart)}>
+                  Delete
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,64 @@
+import { useState } from 'react'
+import { ReceiptFields } from './ReceiptFields'
+import { validateReceipt } from '../lib/receiptValidation'
+import {
+  updateReceipt,
+  receiptToParsedData,
+  parsedDataToReceipt,
+  type ParsedData,
+  type Receipt,
+} from '../services/receiptService'
+
+interface ReceiptEditDialogProps {
+  receipt: Receipt
+  onClose: () => void
+  onSaved: () => void
+}
+
+export const ReceiptEditDialog = ({ receipt, onClose, onSaved }: ReceiptEditDialogProps) => {
+  const [values, setValues] = useState<ParsedData>(() => receiptToParsedData(receipt))
+  const [isSaving, setIsSaving] = useState(false)
+  const issues = validateReceipt(values)
+
+  const handleSave = async () => {
+    if (!receipt.id) return
+    if (issues.length > 0 && !confirm('Some values don\'t add up. Save anyway?')) return
+
+    setIsSaving(true)
+    try {
+      await updateReceipt(receipt.id, parsedDataToReceipt(values))
+      onSaved()
+    } catch (error) {
+      console.error('Error updating receipt:', error)
+      alert(error instanceof Error ? error.message : 'Failed to update receipt')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="header-section">
+          <h2>Edit Receipt</h2>
+        </div>
+
+        <ReceiptFields
+          values={values}
+          isEditing
+          onChange={(field, value) => setValues((prev) => ({ ...prev, [field]: value }))}
+          issues={issues}
+        />
+
+        <div className="modal-actions">
+          <button className="save-button" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Changes'}
+          </button>
+          <button className="reset-button" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,111 @@
+import {
+  parseShift,
+  SHIFT_LABELS,
+  type ParsedData,
+  type ReceiptField,
+} from '../services/receiptService'
+import { LOW_CONFIDENCE, type ValidationIssue } from '../lib/receiptValidation'
+
+interface FieldConfig {
+  key: ReceiptField
+  label: string
+  placeholder: string
+  inputType?: 'text' | 'number'
+  options?: { value: string; label: string }[]
+  format?: (value: string) => string
+  highlight?: boolean
+}
+
+// Shared by the upload preview and the Records edit dialog so both always
+// show the same fields in the same order.
+const FIELDS: FieldConfig[] = [
+  { key: 'date', label: 'Date', placeholder: 'DD/MM/YYYY', inputType: 'text' },
+  {
+    key: 'shift',
+    label: 'Shift',
+    placeholder: 'Select',
+    options: Object.entries(SHIFT_LABELS).map(([value, label]) => ({ value, label })),
+    format: (v) => {
+      const shift = parseShift(v)
+      return shift ? SHIFT_LABELS[shift] : v
+    },
+  },
+  { key: 'quantity', label: 'Quantity (Ltr)', placeholder: '0.0', format: (v) => `${v} Ltr` },
+  { key: 'fat', label: 'Fat %', placeholder: '0.0', format: (v) => `${v}%` },
+  { key: 'clr', label: 'CLR', placeholder: '0.0' },
+  { key: 'fatKg', label: 'Fat Kg', placeholder: '0.00', format: (v) => `${v} kg` },
+  { key: 'snfKg', label: 'SNF Kg', placeholder: '0.00', format: (v) => `${v} kg` },
+  { key: 'baseRate', label: 'Base Rate', placeholder: '0.00', format: (v) => `₹${v}` },
+  { key: 'rate', label: 'Avg. Rate', placeholder: '0.0', format: (v) => `₹${v}` },
+  { key: 'amount', label: 'Total Amount', placeholder: '0', format: (v) => `₹${v}`, highlight: true },
+]
+
+interface ReceiptFieldsProps {
+  values: Partial<ParsedData>
+  isEditing: boolean
+  onChange?: (field: ReceiptField, value: string) => void
+  issues?: ValidationIssue[]
+}
+
+export const ReceiptFields = ({ values, isEditing, onChange, issues = [] }: ReceiptFieldsProps) => {
+  return (
+    <div className="data-grid">
+      {FIELDS.map((field) => {
+        const value = values[field.key]
+        const fieldIssues = issues.filter((issue) => issue.field === field.key)
+        const confidence = values.confidence?.[field.key]
+        const isUnsure = !!value && confidence !== undefined && confidence < LOW_CONFIDENCE
+
+        return (
+          <div
+            key={field.key}
+            className={`data-item ${field.highlight ? 'highlight' : ''} ${
+              fieldIssues.length > 0 ? 'invalid' : isUnsure ? 'unsure' : ''
+            }`}
+          >
+            <span className="label">{field.label}</span>
+            {isEditing && field.options ? (
+              <select
+                className="edit-input"
+                value={value || ''}
+                onChange={(e) => onChange?.(field.key, e.target.value)}
+              >
+                <option value="">{field.placeholder}</option>
+                {field.options.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            ) : isEditing ? (
+              <input
+                type={field.inputType ?? 'number'}
+                step={field.inputType === 'text' ? undefined : 'any'}
+                className="edit-input"
+                value={value || ''}
+                onChange={(e) => onChange?.(field.key, e.target.value)}
+                placeholder={field.placeholder}
+              />
+            ) : (
+              <span className="value">
+                {value ? (field.format ? field.format(value) : value) : '-'}
+              </span>
+            )}
+            {isUnsure && (
+              <span className="field-issue unsure-note">
+                🔍 Please check — read with {Math.round(confidence * 100)}% confidence
+              </span>
+            )}
+            {fieldIssues.map((issue) => (
+              <span key={issue.message} className="field-issue">
+                ⚠️ {issue.message}
+                {issue.expected !== undefined &&
+                  ` (expected ≈ ${field.format ? field.format(String(issue.expected)) : issue.expected})`}
+              </span>
+            ))}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
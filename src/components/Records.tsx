@@ -1,76 +1,151 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { useAuth } from '../contexts/AuthContext'
-import { getUserReceipts, type Receipt } from '../services/receiptService'
-import { format, parse } from 'date-fns'
+import {
+  getReceiptMonth,
+  countReceipts,
+  deleteReceipt,
+  formatReceiptDate,
+  type Receipt,
+  type ReceiptQuery,
+} from '../services/receiptService'
+import { getRateCharts, type RateChart } from '../services/rateChartService'
+import { parseReceiptSearch } from '../lib/receiptSearch'
+import { RecordsTable } from './RecordsTable'
+import { ReceiptEditDialog } from './ReceiptEditDialog'
+import { ExportDialog } from './ExportDialog'
+import { ImportDialog } from './ImportDialog'
+import { StatementDialog } from './StatementDialog'
 import './Records.css'
 
-interface GroupedReceipts {
-  [key: string]: Receipt[]
-}
+// Wait for typing to pause before querying
+const SEARCH_DELAY_MS = 300
 
 export const Records = () => {
-  const { user } = useAuth()
+  const { user, can } = useAuth()
   const [receipts, setReceipts] = useState<Receipt[]>([])
+  const [rateCharts, setRateCharts] = useState<RateChart[]>([])
   const [loading, setLoading] = useState(true)
-  const [globalFilter, setGlobalFilter] = useState('')
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+  const [totalCount, setTotalCount] = useState(0)
+  const [search, setSearch] = useState('')
+  const [appliedSearch, setAppliedSearch] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [editingReceipt, setEditingReceipt] = useState<Receipt | null>(null)
+  const [showExport, setShowExport] = useState(false)
+  const [showImport, setShowImport] = useState(false)
+  const [showStatement, setShowStatement] = useState(false)
+  // First day of the oldest month loaded; the next page is the month before it
+  const cursorRef = useRef<string | null>(null)
+  // Bumped on every reload so responses for an older search are dropped
+  const requestRef = useRef(0)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  const { filters, errors: searchErrors } = useMemo(
+    () => parseReceiptSearch(appliedSearch),
+    [appliedSearch]
+  )
+  const query = useMemo<ReceiptQuery>(
+    () => ({ from: from || undefined, to: to || undefined, filters }),
+    [from, to, filters]
+  )
 
   useEffect(() => {
-    if (user) {
-      loadReceipts()
-    }
-  }, [user])
+    const timer = setTimeout(() => setAppliedSearch(search), SEARCH_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [search])
 
-  const loadReceipts = async () => {
+  useEffect(() => {
+    getRateCharts()
+      .then(setRateCharts)
+      // Records still show without charts; only the rate check is skipped
+      .catch((error) => console.error('Error loading rate charts:', error))
+  }, [])
+
+  const loadReceipts = useCallback(async () => {
     if (!user) return
 
+    const request = ++requestRef.current
     setLoading(true)
     try {
-      const data = await getUserReceipts(user.id)
-      setReceipts(data)
+      const [month, count] = await Promise.all([
+        getReceiptMonth(user.id, null, query),
+        countReceipts(user.id, query),
+      ])
+      if (request !== requestRef.current) return
+
+      setReceipts(month?.receipts ?? [])
+      setTotalCount(count)
+      cursorRef.current = month?.monthStart ?? null
+      setHasMore(!!month)
     } catch (error) {
       console.error('Error loading receipts:', error)
     } finally {
-      setLoading(false)
+      if (request === requestRef.current) setLoading(false)
     }
-  }
-
-  // Group receipts by month and year
-  const groupReceiptsByMonth = (receipts: Receipt[]): GroupedReceipts => {
-    const filtered = globalFilter
-      ? receipts.filter(r =>
-          Object.values(r).some(val =>
-            String(val).toLowerCase().includes(globalFilter.toLowerCase())
-          )
-        )
-      : receipts
-
-    return filtered.reduce((groups: GroupedReceipts, receipt) => {
-      try {
-        // Parse the date (DD/MM/YYYY format)
-        const date = parse(receipt.date, 'dd/MM/yyyy', new Date())
-        const monthYear = format(date, 'MMMM yyyy')
-
-        if (!groups[monthYear]) {
-          groups[monthYear] = []
-        }
-        groups[monthYear].push(receipt)
-      } catch (error) {
-        console.error('Error parsing date:', receipt.date, error)
+  }, [user, query])
+
+  const loadMore = useCallback(async () => {
+    if (!user || loading || loadingMore || !hasMore) return
+
+    const request = requestRef.current
+    setLoadingMore(true)
+    try {
+      const month = await getReceiptMonth(user.id, cursorRef.current, query)
+      if (request !== requestRef.current) return
+
+      if (month) {
+        setReceipts(prev => [...prev, ...month.receipts])
+        cursorRef.current = month.monthStart
       }
-      return groups
-    }, {})
-  }
+      setHasMore(!!month)
+    } catch (error) {
+      console.error('Error loading receipts:', error)
+      setHasMore(false)
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [user, query, loading, loadingMore, hasMore])
 
-  const groupedReceipts = groupReceiptsByMonth(receipts)
+  useEffect(() => {
+    loadReceipts()
+  }, [loadReceipts])
 
-  if (loading) {
-    return (
-      <div className="records-loading">
-        <div className="spinner"></div>
-        <p>Loading receipts...</p>
-      </div>
-    )
-  }
+  // Load the next month whenever the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore) return
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) loadMore()
+    }, { rootMargin: '200px' })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, loadMore])
+
+  const handleDelete = useCallback(async (selected: Receipt[]) => {
+    const message = selected.length === 1
+      ? `Delete the receipt for ${formatReceiptDate(selected[0].date)}? This also removes its image.`
+      : `Delete ${selected.length} receipts? This also removes their images.`
+    if (!confirm(message)) return
+
+    const deleted: Receipt[] = []
+    try {
+      for (const receipt of selected) {
+        await deleteReceipt(receipt)
+        deleted.push(receipt)
+      }
+    } catch (error) {
+      console.error('Error deleting receipt:', error)
+      alert(error instanceof Error ? error.message : 'Failed to delete receipt')
+    } finally {
+      setReceipts(prev => prev.filter(r => !deleted.includes(r)))
+      setTotalCount(prev => prev - deleted.length)
+    }
+  }, [])
+
+  const isFiltered = filters.length > 0 || !!from || !!to
 
   return (
     <div className="records-container">
@@ -78,104 +153,117 @@ export const Records = () => {
         <h2>All Records</h2>
         <div className="records-stats">
           <span className="stat-item">
-            Total: <strong>{receipts.length}</strong>
+            Total: <strong>{totalCount}</strong>
           </span>
+          {receipts.length < totalCount && (
+            <span className="stat-item">
+              Shown: <strong>{receipts.length}</strong>
+            </span>
+          )}
+          <button
+            className="export-button"
+            onClick={() => setShowExport(true)}
+            disabled={totalCount === 0}
+          >
+            ⬇️ Export
+          </button>
+          <button
+            className="export-button"
+            onClick={() => setShowStatement(true)}
+          >
+            🧾 Statement
+          </button>
+          {can('receipt:create') && (
+            <button className="export-button" onClick={() => setShowImport(true)}>
+              ⬆️ Import
+            </button>
+          )}
         </div>
       </div>
 
       <div className="search-bar">
         <input
           type="text"
-          value={globalFilter ?? ''}
-          onChange={(e) => setGlobalFilter(e.target.value)}
-          placeholder="Search records..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search e.g. fat<3.5 qty>=10 shift:evening 01/03/2025"
           className="search-input"
         />
+        <div className="search-dates">
+          <label>
+            From
+            <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+          </label>
+          <label>
+            To
+            <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+          </label>
+        </div>
+        {searchErrors.map((error) => (
+          <p key={error} className="search-error">⚠️ {error}</p>
+        ))}
       </div>
 
-      {receipts.length === 0 ? (
+      {loading ? (
+        <div className="records-loading">
+          <div className="spinner"></div>
+          <p>Loading receipts...</p>
+        </div>
+      ) : receipts.length === 0 ? (
         <div className="no-records">
           <p>No receipts found</p>
-          <p className="no-records-hint">Upload your first receipt to get started!</p>
+          {isFiltered ? (
+            <p className="no-records-hint">Try a different search or date range.</p>
+          ) : can('receipt:create') && (
+            <p className="no-records-hint">Upload your first receipt to get started!</p>
+          )}
         </div>
       ) : (
-        <div className="month-groups">
-          {Object.entries(groupedReceipts).map(([monthYear, monthReceipts]) => (
-            <div key={monthYear} className="month-group">
-              <h3 className="month-header">{monthYear}</h3>
-
-              <div className="table-wrapper">
-                <table className="records-table">
-                  <thead>
-                    <tr>
-                      <th>Date</th>
-                      <th>Qty</th>
-                      <th>Fat</th>
-                      <th>SNF</th>
-                      <th>Rate</th>
-                      <th>Amt</th>
-                      <th>CLR</th>
-                      <th>F.Kg</th>
-                      <th>S.Kg</th>
-                      <th>B.Rt</th>
-                      <th>Type</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {monthReceipts.map((receipt, idx) => {
-                      const date = parse(receipt.date, 'dd/MM/yyyy', new Date())
-                      const dayOfMonth = format(date, 'dd')
-
-                      // Calculate SNF from CLR and Fat if not provided
-                      const snf = receipt.snf_kg
-                        ? (parseFloat(receipt.snf_kg) / parseFloat(receipt.quantity) * 100).toFixed(1)
-                        : (parseFloat(receipt.clr) - 0.25 * parseFloat(receipt.fat)).toFixed(1)
-
-                      // Determine entry type from image URL
-                      const isManualEntry = receipt.image_url.includes('Manual') ||
-                                           receipt.image_url.includes('manual')
-
-                      return (
-                        <tr key={receipt.id || idx}>
-                          <td>{dayOfMonth}</td>
-                          <td>{receipt.quantity}</td>
-                          <td>{receipt.fat}</td>
-                          <td>{snf}</td>
-                          <td>{receipt.rate}</td>
-                          <td className="amount-cell">{receipt.amount}</td>
-                          <td className="extra-col">{receipt.clr}</td>
-                          <td className="extra-col">{receipt.fat_kg || '-'}</td>
-                          <td className="extra-col">{receipt.snf_kg || '-'}</td>
-                          <td className="extra-col">{receipt.base_rate}</td>
-                          <td className="extra-col">
-                            <a
-                              href={receipt.image_url}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="entry-type-link"
-                              title={isManualEntry ? 'Manual Entry' : 'Camera Upload'}
-                            >
-                              {isManualEntry ? '✍️' : '📷'}
-                            </a>
-                          </td>
-                        </tr>
-                      )
-                    })}
-                  </tbody>
-                  <tfoot>
-                    <tr className="totals-row">
-                      <td colSpan={5} className="totals-label">Total</td>
-                      <td className="totals-value">
-                        {monthReceipts.reduce((sum, r) => sum + parseFloat(r.amount), 0).toFixed(2)}
-                      </td>
-                      <td colSpan={5}></td>
-                    </tr>
-                  </tfoot>
-                </table>
-              </div>
+        <>
+          <RecordsTable
+            receipts={receipts}
+            rateCharts={rateCharts}
+            onEdit={can('receipt:update') ? setEditingReceipt : undefined}
+            onDelete={can('receipt:delete') ? handleDelete : undefined}
+          />
+
+          {hasMore && (
+            <div ref={sentinelRef} className="load-more">
+              <button className="export-button" onClick={loadMore} disabled={loadingMore}>
+                {loadingMore ? 'Loading...' : 'Load earlier months'}
+              </button>
             </div>
-          ))}
-        </div>
+          )}
+        </>
+      )}
+
+      {showExport && (
+        <ExportDialog query={query} onClose={() => setShowExport(false)} />
+      )}
+
+      {showStatement && (
+        <StatementDialog onClose={() => setShowStatement(false)} />
+      )}
+
+      {showImport && (
+        <ImportDialog
+          onClose={() => setShowImport(false)}
+          onImported={() => {
+            setShowImport(false)
+            loadReceipts()
+          }}
+        />
+      )}
+
+      {editingReceipt && (
+        <ReceiptEditDialog
+          receipt={editingReceipt}
+          onClose={() => setEditingReceipt(null)}
+          onSaved={() => {
+            setEditingReceipt(null)
+            loadReceipts()
+          }}
+        />
       )}
     </div>
   )
@@ -0,0 +1,500 @@
+import { useMemo, useState, type ReactNode } from 'react'
+import {
+  flexRender,
+  getCoreRowModel,
+  getFilteredRowModel,
+  getSortedRowModel,
+  useReactTable,
+  type ColumnDef,
+  type ColumnFiltersState,
+  type Row,
+  type RowData,
+  type RowSelectionState,
+  type SortingState,
+  type VisibilityState,
+} from '@tanstack/react-table'
+import { format } from 'date-fns'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  getSnfPercent,
+  SHIFT_LABELS,
+  ENTRY_TYPE_LABELS,
+  type EntryType,
+  type Receipt,
+  type Shift,
+} from '../services/receiptService'
+import type { RateChart } from '../services/rateChartService'
+import { getExpectedRate, getUnderpayment } from '../lib/rateChart'
+import { matchesComparison } from '../lib/receiptSearch'
+import { exportReceipts } from '../lib/export'
+import { getRecordColumns, saveRecordColumns } from '../lib/settings'
+
+declare module '@tanstack/react-table' {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface ColumnMeta<TData extends RowData, TValue> {
+    // Full name for the column and filter pickers; headers use short forms
+    label?: string
+    title?: string
+    className?: string
+    // Shown in the column picker but hidden by default on small screens
+    extra?: boolean
+    filter?: 'number' | 'shift' | 'entryType'
+    // Footer value for a month's receipts; subtotal columns also get one per shift
+    total?: (receipts: Receipt[]) => ReactNode
+    subtotal?: boolean
+  }
+}
+
+const SHIFT_ICONS: Record<Shift, string> = { morning: '☀️', evening: '🌙' }
+const SHIFT_ORDER: Record<Shift, number> = { morning: 0, evening: 1 }
+const ENTRY_TYPE_ICONS: Record<EntryType, string> = { camera: '📷', manual: '✍️', import: '📄' }
+
+const sum = (receipts: Receipt[], value: (receipt: Receipt) => number) =>
+  receipts.reduce((total, receipt) => total + value(receipt), 0)
+
+// A numeric column: blanks sort last either way and filter with `<3.5`-style input
+const numberColumn = (
+  id: string,
+  header: string,
+  value: (receipt: Receipt) => number | null,
+  meta: ColumnDef<Receipt>['meta'] = {},
+  display: (value: number) => ReactNode = (v) => v
+): ColumnDef<Receipt> => ({
+  id,
+  header,
+  accessorFn: (receipt) => value(receipt) ?? undefined,
+  sortUndefined: 'last',
+  filterFn: (row, columnId, filter: string) =>
+    matchesComparison(row.getValue<number | undefined>(columnId) ?? null, filter),
+  cell: ({ getValue }) => {
+    const v = getValue<number | undefined>()
+    return v === undefined ? '-' : display(v)
+  },
+  meta: { label: header, filter: 'number', ...meta },
+})
+
+const getDefaultVisibility = (columns: ColumnDef<Receipt>[]): VisibilityState =>
+  window.matchMedia('(max-width: 640px)').matches
+    ? Object.fromEntries(columns.filter((c) => c.meta?.extra).map((c) => [c.id, false]))
+    : {}
+
+interface RecordsTableProps {
+  receipts: Receipt[]
+  rateCharts: RateChart[]
+  onEdit?: (receipt: Receipt) => void
+  onDelete?: (receipts: Receipt[]) => Promise<void>
+}
+
+export const RecordsTable = ({ receipts, rateCharts, onEdit, onDelete }: RecordsTableProps) => {
+  const { user } = useAuth()
+  const hasCharts = rateCharts.length > 0
+
+  const columns = useMemo<ColumnDef<Receipt>[]>(() => [
+    {
+      id: 'select',
+      header: '',
+      cell: ({ row }) => (
+        <input
+          type="checkbox"
+          checked={row.getIsSelected()}
+          onChange={row.getToggleSelectedHandler()}
+          aria-label="Select receipt"
+        />
+      ),
+      enableSorting: false,
+      enableHiding: false,
+    },
+    {
+      id: 'date',
+      header: 'Date',
+      accessorFn: (receipt) => receipt.date.getTime(),
+      sortingFn: (a, b) =>
+        a.original.date.getTime() - b.original.date.getTime() ||
+        (a.original.shift ? SHIFT_ORDER[a.original.shift] : 2) -
+          (b.original.shift ? SHIFT_ORDER[b.original.shift] : 2),
+      filterFn: (row, _columnId, shift: Shift) => row.original.shift === shift,
+      cell: ({ row }) => (
+        <>
+          {format(row.original.date, 'dd')}
+          {row.original.shift && (
+            <span className="shift-icon" title={SHIFT_LABELS[row.original.shift]}>
+              {SHIFT_ICONS[row.original.shift]}
+            </span>
+          )}
+        </>
+      ),
+      enableHiding: false,
+      meta: { label: 'Shift', filter: 'shift' },
+    },
+    numberColumn('quantity', 'Qty', (r) => r.quantity, {
+      label: 'Quantity',
+      total: (month) => sum(month, (r) => r.quantity).toFixed(1),
+      subtotal: true,
+    }),
+    numberColumn('fat', 'Fat', (r) => r.fat),
+    numberColumn('snf', 'SNF', getSnfPercent, {}, (v) => v.toFixed(1)),
+    numberColumn('rate', 'Rate', (r) => r.rate),
+    numberColumn('amount', 'Amt', (r) => r.amount, {
+      label: 'Amount',
+      className: 'amount-cell',
+      total: (month) => sum(month, (r) => r.amount).toFixed(2),
+      subtotal: true,
+    }),
+    ...(hasCharts
+      ? [
+          numberColumn(
+            'short',
+            'Short',
+            (r) => getUnderpayment(r, rateCharts),
+            {
+              label: 'Short paid',
+              title: 'Underpaid against the rate chart',
+              className: 'short-cell',
+              total: (month) => (
+                <span className="underpaid">
+                  {sum(month, (r) => Math.max(getUnderpayment(r, rateCharts) ?? 0, 0)).toFixed(2)}
+                </span>
+              ),
+            },
+            (v) => <span className={v > 0.005 ? 'underpaid' : undefined}>{v.toFixed(2)}</span>
+          ),
+          numberColumn(
+            'expectedRate',
+            'Exp.Rt',
+            (r) => getExpectedRate(r, rateCharts),
+            { label: 'Expected rate', extra: true },
+            (v) => v.toFixed(2)
+          ),
+        ]
+      : []),
+    numberColumn('clr', 'CLR', (r) => r.clr, { extra: true }),
+    numberColumn('fat_kg', 'F.Kg', (r) => r.fat_kg, { label: 'Fat kg', extra: true }),
+    numberColumn('snf_kg', 'S.Kg', (r) => r.snf_kg, { label: 'SNF kg', extra: true }),
+    numberColumn('base_rate', 'B.Rt', (r) => r.base_rate, { label: 'Base rate', extra: true }),
+    {
+      id: 'entry_type',
+      header: 'Type',
+      accessorKey: 'entry_type',
+      filterFn: 'equals',
+      cell: ({ row }) => {
+        const { entry_type, image_url } = row.original
+        return image_url ? (
+          <a
+            href={image_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="entry-type-link"
+            title={ENTRY_TYPE_LABELS[entry_type]}
+          >
+            {ENTRY_TYPE_ICONS[entry_type]}
+          </a>
+        ) : (
+          <span title={ENTRY_TYPE_LABELS[entry_type]}>{ENTRY_TYPE_ICONS[entry_type]}</span>
+        )
+      },
+      meta: { label: 'Entry type', extra: true, filter: 'entryType' },
+    },
+    ...(onEdit || onDelete
+      ? [
+          {
+            id: 'actions',
+            header: '',
+            cell: ({ row }) => (
+              <div className="row-actions">
+                {onEdit && (
+                  <button className="row-action" onClick={() => onEdit(row.original)} title="Edit">
+                    ✏️
+                  </button>
+                )}
+                {onDelete && (
+                  <button className="row-action" onClick={() => onDelete([row.original])} title="Delete">
+                    🗑️
+                  </button>
+                )}
+              </div>
+            ),
+            enableSorting: false,
+            enableHiding: false,
+          } satisfies ColumnDef<Receipt>,
+        ]
+      : []),
+  ], [hasCharts, rateCharts, onEdit, onDelete])
+
+  const [sorting, setSorting] = useState<SortingState>([])
+  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([])
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({})
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>(
+    () => (user && getRecordColumns(user.id)) ?? getDefaultVisibility(columns)
+  )
+  const [panel, setPanel] = useState<'columns' | 'filters' | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  const table = useReactTable({
+    data: receipts,
+    columns,
+    state: { sorting, columnFilters, rowSelection, columnVisibility },
+    getRowId: (receipt, index) => receipt.id ?? String(index),
+    onSortingChange: setSorting,
+    onColumnFiltersChange: setColumnFilters,
+    onRowSelectionChange: setRowSelection,
+    onColumnVisibilityChange: (updater) => {
+      setColumnVisibility((prev) => {
+        const next = typeof updater === 'function' ? updater(prev) : updater
+        if (user) saveRecordColumns(user.id, next)
+        return next
+      })
+    },
+    getCoreRowModel: getCoreRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+  })
+
+  // Rows keep the table's sort within each month; months run newest first
+  // unless the table is sorted by date ascending
+  const months = new Map<string, Row<Receipt>[]>()
+  table.getRowModel().rows.forEach((row) => {
+    const key = format(row.original.date, 'yyyy-MM')
+    months.set(key, [...(months.get(key) ?? []), row])
+  })
+  const oldestFirst = sorting[0]?.id === 'date' && !sorting[0].desc
+  const monthKeys = [...months.keys()].sort()
+  if (!oldestFirst) monthKeys.reverse()
+
+  const selected = table.getFilteredSelectedRowModel().rows.map((row) => row.original)
+  const visibleColumns = table.getVisibleLeafColumns()
+  const filterColumns = visibleColumns.filter((column) => column.columnDef.meta?.filter)
+
+  const toggleMonth = (rows: Row<Receipt>[]) => {
+    const select = !rows.every((row) => row.getIsSelected())
+    setRowSelection((prev) => ({
+      ...prev,
+      ...Object.fromEntries(rows.map((row) => [row.id, select])),
+    }))
+  }
+
+  const handleExportSelected = async () => {
+    setIsWorking(true)
+    try {
+      await exportReceipts(selected, 'xlsx', `milk-records_selected-${selected.length}`)
+    } catch (error) {
+      console.error('Error exporting receipts:', error)
+      alert(error instanceof Error ? error.message : 'Failed to export receipts')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleDeleteSelected = async () => {
+    if (!onDelete) return
+
+    setIsWorking(true)
+    try {
+      await onDelete(selected)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const renderTotals = (label: ReactNode, month: Receipt[], isSubtotal: boolean) =>
+    visibleColumns.map((column) => {
+      const meta = column.columnDef.meta
+      if (column.id === 'date') {
+        return <td key={column.id} className="totals-label">{label}</td>
+      }
+      if (!meta?.total || (isSubtotal && !meta.subtotal)) return <td key={column.id}></td>
+      return (
+        <td key={column.id} className={isSubtotal ? undefined : `totals-value ${meta.className ?? ''}`}>
+          {meta.total(month)}
+        </td>
+      )
+    })
+
+  return (
+    <>
+      <div className="table-toolbar">
+        <button
+          className={`export-button ${panel === 'columns' ? 'active' : ''}`}
+          onClick={() => setPanel(panel === 'columns' ? null : 'columns')}
+        >
+          Columns
+        </button>
+        <button
+          className={`export-button ${panel === 'filters' ? 'active' : ''}`}
+          onClick={() => setPanel(panel === 'filters' ? null : 'filters')}
+        >
+          Filters{columnFilters.length > 0 && ` (${columnFilters.length})`}
+        </button>
+        {columnFilters.length > 0 && (
+          <button className="export-button" onClick={() => table.resetColumnFilters()}>
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {panel === 'columns' && (
+        <div className="table-panel">
+          {table.getAllLeafColumns().filter((column) => column.getCanHide()).map((column) => (
+            <label key={column.id} className="table-panel-option">
+              <input
+                type="checkbox"
+                checked={column.getIsVisible()}
+                onChange={column.getToggleVisibilityHandler()}
+              />
+              {column.columnDef.meta?.label ?? column.id}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {panel === 'filters' && (
+        <div className="table-panel">
+          {filterColumns.map((column) => {
+            const meta = column.columnDef.meta!
+            const value = (column.getFilterValue() as string | undefined) ?? ''
+            const setValue = (next: string) => column.setFilterValue(next || undefined)
+
+            return (
+              <label key={column.id} className="table-panel-filter">
+                {meta.label}
+                {meta.filter === 'shift' ? (
+                  <select value={value} onChange={(e) => setValue(e.target.value)}>
+                    <option value="">All</option>
+                    {Object.entries(SHIFT_LABELS).map(([shift, label]) => (
+                      <option key={shift} value={shift}>{label}</option>
+                    ))}
+                  </select>
+                ) : meta.filter === 'entryType' ? (
+                  <select value={value} onChange={(e) => setValue(e.target.value)}>
+                    <option value="">All</option>
+                    {Object.entries(ENTRY_TYPE_LABELS).map(([type, label]) => (
+                      <option key={type} value={type}>{label}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    placeholder="e.g. >=4.5"
+                  />
+                )}
+              </label>
+            )
+          })}
+          <p className="table-panel-hint">
+            Filters apply to the months loaded so far; use the search above to look further back.
+          </p>
+        </div>
+      )}
+
+      {selected.length > 0 && (
+        <div className="selection-bar">
+          <span>
+            {selected.length} selected · {sum(selected, (r) => r.quantity).toFixed(1)} Ltr · ₹
+            {sum(selected, (r) => r.amount).toFixed(2)}
+          </span>
+          <button className="export-button" onClick={handleExportSelected} disabled={isWorking}>
+            ⬇️ Export
+          </button>
+          {onDelete && (
+            <button className="export-button" onClick={handleDeleteSelected} disabled={isWorking}>
+              🗑️ Delete
+            </button>
+          )}
+          <button className="export-button" onClick={() => table.resetRowSelection()} disabled={isWorking}>
+            Clear
+          </button>
+        </div>
+      )}
+
+      {monthKeys.length === 0 ? (
+        <div className="no-records">
+          <p>No receipts match the column filters</p>
+        </div>
+      ) : (
+        <div className="month-groups">
+          {monthKeys.map((key) => {
+            const rows = months.get(key)!
+            const month = rows.map((row) => row.original)
+            const allSelected = rows.every((row) => row.getIsSelected())
+            const someSelected = rows.some((row) => row.getIsSelected())
+
+            return (
+              <div key={key} className="month-group">
+                <h3 className="month-header">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    ref={(el) => {
+                      if (el) el.indeterminate = someSelected && !allSelected
+                    }}
+                    onChange={() => toggleMonth(rows)}
+                    aria-label="Select month"
+                  />
+                  {format(month[0].date, 'MMMM yyyy')}
+                </h3>
+
+                <div className="table-wrapper">
+                  <table className="records-table">
+                    <thead>
+                      {table.getHeaderGroups().map((headerGroup) => (
+                        <tr key={headerGroup.id}>
+                          {headerGroup.headers.map((header) => {
+                            const sorted = header.column.getIsSorted()
+                            return (
+                              <th
+                                key={header.id}
+                                title={header.column.columnDef.meta?.title}
+                                onClick={header.column.getToggleSortingHandler()}
+                              >
+                                <span className="th-content">
+                                  {flexRender(header.column.columnDef.header, header.getContext())}
+                                  {sorted && <span className="sort-icon">{sorted === 'asc' ? '▲' : '▼'}</span>}
+                                </span>
+                              </th>
+                            )
+                          })}
+                        </tr>
+                      ))}
+                    </thead>
+                    <tbody>
+                      {rows.map((row) => (
+                        <tr key={row.id} className={row.getIsSelected() ? 'selected' : undefined}>
+                          {row.getVisibleCells().map((cell) => {
+                            const meta = cell.column.columnDef.meta
+                            return (
+                              <td
+                                key={cell.id}
+                                className={[meta?.className, meta?.extra && 'extra-col'].filter(Boolean).join(' ') || undefined}
+                              >
+                                {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                              </td>
+                            )
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot>
+                      {(['morning', 'evening'] as Shift[]).map((shift) => {
+                        const shiftReceipts = month.filter((r) => r.shift === shift)
+                        if (shiftReceipts.length === 0) return null
+
+                        return (
+                          <tr key={shift} className="subtotals-row">
+                            {renderTotals(`${SHIFT_ICONS[shift]} ${SHIFT_LABELS[shift]}`, shiftReceipts, true)}
+                          </tr>
+                        )
+                      })}
+                      <tr className="totals-row">{renderTotals('Total', month, false)}</tr>
+                    </tfoot>
+                  </table>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </>
+  )
+}
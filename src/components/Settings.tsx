@@ -0,0 +1,18 @@
+import { RateCharts } from './RateCharts'
+import { ExtractorSettings } from './ExtractorSettings'
+import './Settings.css'
+
+export const Settings = () => {
+  return (
+    <div className="records-container">
+      <div className="records-header">
+        <h2>Settings</h2>
+      </div>
+
+      <div className="settings-sections">
+        <ExtractorSettings />
+        <RateCharts />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react'
+import { format, parse } from 'date-fns'
+import { useAuth } from '../contexts/AuthContext'
+import { downloadBlob } from '../lib/export'
+import { getPeriod, PERIOD_KIND_LABELS, type PeriodKind } from '../lib/periods'
+import { generateStatementPdf } from '../lib/statement'
+import { countReceipts, getUserReceipts } from '../services/receiptService'
+
+interface StatementDialogProps {
+  onClose: () => void
+}
+
+export const StatementDialog = ({ onClose }: StatementDialogProps) => {
+  const { user, profile } = useAuth()
+  const [kind, setKind] = useState<PeriodKind>('month')
+  const [dateInPeriod, setDateInPeriod] = useState(() => format(new Date(), 'yyyy-MM-dd'))
+  const [count, setCount] = useState<number | null>(null)
+  const [countFailed, setCountFailed] = useState(false)
+  // Statements are built from the server's receipts, so they need a connection
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine)
+  const [isGenerating, setIsGenerating] = useState(false)
+
+  const period = dateInPeriod ? getPeriod(parse(dateInPeriod, 'yyyy-MM-dd', new Date()), kind) : null
+  const from = period ? format(period.start, 'yyyy-MM-dd') : ''
+  const to = period ? format(period.end, 'yyyy-MM-dd') : ''
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine)
+    window.addEventListener('online', update)
+    window.addEventListener('offline', update)
+    return () => {
+      window.removeEventListener('online', update)
+      window.removeEventListener('offline', update)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!user || !from || !isOnline) return
+
+    let cancelled = false
+    setCount(null)
+    setCountFailed(false)
+    countReceipts(user.id, { from, to })
+      .then((total) => {
+        if (!cancelled) setCount(total)
+      })
+      .catch((error) => {
+        console.error('Error counting receipts:', error)
+        if (!cancelled) setCountFailed(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [user, from, to, isOnline])
+
+  const handleGenerate = async () => {
+    if (!user || !period) return
+
+    setIsGenerating(true)
+    try {
+      const receipts = await getUserReceipts(user.id, { from, to })
+      const { blob, fileName } = await generateStatementPdf(receipts, period, {
+        name: profile?.full_name || user.user_metadata?.full_name || user.email || 'Farmer',
+        phone: profile?.phone,
+        email: profile?.email ?? user.email,
+      })
+      downloadBlob(blob, fileName)
+      onClose()
+    } catch (error) {
+      console.error('Error generating statement:', error)
+      alert(error instanceof Error ? error.message : 'Failed to generate statement')
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="header-section">
+          <h2>Statement PDF</h2>
+        </div>
+
+        <div className="ai-form export-form">
+          <div className="form-group">
+            <label>Statement for</label>
+            <select value={kind} onChange={(e) => setKind(e.target.value as PeriodKind)}>
+              {Object.entries(PERIOD_KIND_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label>Any day in the period</label>
+            <input type="date" value={dateInPeriod} onChange={(e) => setDateInPeriod(e.target.value)} />
+          </div>
+        </div>
+
+        {isOnline && !countFailed ? (
+          <p className="modal-text modal-hint">
+            {period && <strong>{period.label}: </strong>}
+            {count === null ? 'counting receipts' : `${count} receipt${count === 1 ? '' : 's'}`} by
+            date and shift, with shift and overall totals for quantity, fat kg, SNF kg and amount,
+            and the average fat and SNF. Every receipt in the period is included.
+          </p>
+        ) : (
+          <p className="modal-text modal-hint">
+            {isOnline
+              ? "Couldn't reach the server to count this period's receipts."
+              : "You're offline. Statements are made from your saved receipts, so connect to download one."}
+          </p>
+        )}
+
+        <div className="modal-actions">
+          <button
+            className="save-button"
+            onClick={handleGenerate}
+            disabled={isGenerating || !isOnline || !count}
+          >
+            {isGenerating ? 'Generating...' : 'Download PDF'}
+          </button>
+          <button className="reset-button" onClick={onClose} disabled={isGenerating}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
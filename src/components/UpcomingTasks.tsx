@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import type { AIRecord } from '../services/aiRecordService'
+import {
+  completeReminder,
+  enableReminderNotifications,
+  getNotificationPermission,
+  getUpcomingReminders,
+  isReminderDue,
+  showDueReminders,
+  snoozeReminder,
+  subscribeToReminders,
+  syncReminders,
+  type StoredReminder,
+} from '../services/reminderService'
+import { REMINDER_LABELS, getReminders } from '../lib/reminders'
+import { formatDay } from '../lib/dates'
+
+interface UpcomingTasksProps {
+  // Null when the records failed to load, so the stored reminders are kept as they are
+  records: AIRecord[] | null
+}
+
+/**
+ * Reminders derived from the AI records, listed in the app and, once allowed,
+ * shown as notifications. The list is the fallback where notifications are
+ * blocked or unsupported.
+ */
+export const UpcomingTasks = ({ records }: UpcomingTasksProps) => {
+  const { user } = useAuth()
+  const [tasks, setTasks] = useState<StoredReminder[]>([])
+  const [permission, setPermission] = useState(getNotificationPermission)
+
+  const loadTasks = useCallback(async () => {
+    if (!user) return
+
+    try {
+      setTasks(await getUpcomingReminders(user.id, new Date()))
+    } catch (error) {
+      console.error('Error loading reminders:', error)
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (!user || !records) return
+
+    syncReminders(user.id, getReminders(records))
+      .then(() => showDueReminders(user.id, new Date()))
+      .catch((error) => console.error('Error syncing reminders:', error))
+  }, [user, records])
+
+  useEffect(() => {
+    loadTasks()
+    return subscribeToReminders(loadTasks)
+  }, [loadTasks])
+
+  const handleEnable = async () => {
+    if (!user) return
+
+    const result = await enableReminderNotifications()
+    setPermission(result)
+    if (result === 'granted') showDueReminders(user.id, new Date())
+  }
+
+  const handleAction = async (action: (reminder: StoredReminder) => Promise<void>, task: StoredReminder) => {
+    try {
+      await action(task)
+    } catch (error) {
+      console.error('Error updating reminder:', error)
+      alert('Failed to update reminder')
+    }
+  }
+
+  if (tasks.length === 0 && permission !== 'default') return null
+
+  const today = new Date()
+
+  return (
+    <section className="upcoming-tasks">
+      <div className="upcoming-tasks-header">
+        <h3>📅 Upcoming tasks</h3>
+        {permission === 'default' && (
+          <button className="outbox-action" onClick={handleEnable}>
+            Turn on reminders
+          </button>
+        )}
+        {permission === 'denied' && (
+          <span className="form-hint">Notifications are blocked; check this list instead</span>
+        )}
+      </div>
+      {tasks.length === 0 ? (
+        <p className="form-hint">Nothing due this week.</p>
+      ) : (
+        <ul>
+          {tasks.map((task) => {
+            const due = isReminderDue(task, today)
+            return (
+              <li key={task.id} className={due ? 'due' : undefined}>
+                <span className="breeding-alert-tag">{task.animalTag}</span>
+                <span className="upcoming-task-text">
+                  {REMINDER_LABELS[task.kind]} · {formatDay(task.start)} – {formatDay(task.end)}
+                  {task.snoozedUntil && !due && ` (snoozed until ${formatDay(task.snoozedUntil)})`}
+                </span>
+                <span className="upcoming-task-actions">
+                  {due && (
+                    <button
+                      className="outbox-action"
+                      onClick={() => handleAction((t) => snoozeReminder(t, today), task)}
+                    >
+                      Snooze
+                    </button>
+                  )}
+                  <button className="outbox-action" onClick={() => handleAction(completeReminder, task)}>
+                    Done
+                  </button>
+                </span>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,27 @@
+import type { Withdrawal } from '../lib/health'
+import { formatDay } from '../lib/dates'
+import './Health.css'
+
+interface WithdrawalBannerProps {
+  withdrawals: Withdrawal[]
+  // Leads the banner, e.g. to say the warning is about a receipt's date
+  message?: string
+}
+
+/** Lists animals whose milk must be kept back; renders nothing when there are none. */
+export const WithdrawalBanner = ({ withdrawals, message }: WithdrawalBannerProps) => {
+  if (withdrawals.length === 0) return null
+
+  return (
+    <div className="withdrawal-banner" role="alert">
+      <strong>🚫 {message ?? 'Milk withheld'}</strong>
+      <ul>
+        {withdrawals.map(({ animal, record, until }) => (
+          <li key={animal.id}>
+            <span className="withdrawal-tag">{animal.tag}</span> until {formatDay(until)} · {record.drug}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
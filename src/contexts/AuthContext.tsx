@@ -1,10 +1,17 @@
-import { createContext, useContext, useEffect, useState } from 'react'
+import { createContext, useCallback, useContext, useEffect, useState } from 'react'
 import type { User } from '@supabase/supabase-js'
 import { supabase } from '../lib/supabase'
+import { hasPermission, type Permission, type Role } from '../lib/permissions'
+import { getProfile, type Profile } from '../services/profileService'
+import { clearReminders } from '../services/reminderService'
 
 interface AuthContextType {
   user: User | null
+  profile: Profile | null
+  role: Role | null
   loading: boolean
+  can: (permission: Permission) => boolean
+  refreshProfile: () => Promise<void>
   login: (email: string, password: string) => Promise<void>
   signup: (email: string, password: string, fullName?: string) => Promise<void>
   logout: () => Promise<void>
@@ -22,7 +29,9 @@ export const useAuth = () => {
 
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null)
+  const [profile, setProfile] = useState<Profile | null>(null)
   const [loading, setLoading] = useState(true)
+  const [profileLoadedFor, setProfileLoadedFor] = useState<string | null>(null)
 
   useEffect(() => {
     // Get initial session
@@ -45,6 +54,8 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       // Handle signed out
       if (event === 'SIGNED_OUT') {
         setUser(null)
+        // The service worker shows whatever is stored, so the next user mustn't inherit it
+        clearReminders().catch((error) => console.error('Error clearing reminders:', error))
       }
     })
 
@@ -62,6 +73,39 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     }
   }, [])
 
+  const userId = user?.id
+
+  const refreshProfile = useCallback(async () => {
+    if (!userId) {
+      setProfile(null)
+      return
+    }
+
+    try {
+      setProfile(await getProfile(userId))
+    } catch (error) {
+      // Without a profile every role check fails closed
+      console.error('Error loading profile:', error)
+      setProfile(null)
+    } finally {
+      setProfileLoadedFor(userId)
+    }
+  }, [userId])
+
+  // Load the profile (and with it the role) whenever the signed-in user changes
+  useEffect(() => {
+    refreshProfile()
+  }, [refreshProfile])
+
+  const role = profile?.role ?? null
+  // Only the first load for a user blocks the UI; later refreshes happen in place
+  const profilePending = !!userId && profileLoadedFor !== userId
+
+  const can = useCallback(
+    (permission: Permission) => hasPermission(role, permission),
+    [role]
+  )
+
   const login = async (email: string, password: string) => {
     const { error } = await supabase.auth.signInWithPassword({ email, password })
     if (error) throw error
@@ -97,7 +141,11 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
   const value = {
     user,
-    loading,
+    profile,
+    role,
+    loading: loading || profilePending,
+    can,
+    refreshProfile,
     login,
     signup,
     logout
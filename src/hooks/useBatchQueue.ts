@@ -0,0 +1,177 @@
+import { useCallback, useState } from 'react'
+import { createId } from '../lib/idb'
+import { createLimiter } from '../lib/concurrency'
+import { readReceiptImage, type ReceiptExtractor } from '../services/extraction'
+import { queueReceipt, syncOutbox } from '../services/outboxService'
+import {
+  findConflictingReceipts,
+  formatReceiptDate,
+  parsedDataToReceipt,
+  SHIFT_LABELS,
+  type ParsedData,
+  type ReceiptInput,
+} from '../services/receiptService'
+
+export interface BatchItem {
+  id: string
+  file: File
+  previewUrl: string
+  status: 'processing' | 'review' | 'accepted' | 'failed'
+  blob: Blob | null
+  data: ParsedData | null
+  error?: string
+  // Set once the user has been told about an existing receipt for the same
+  // date and shift, so accepting again saves it anyway
+  allowDuplicate?: boolean
+}
+
+// Same rule as findConflictingReceipts: a receipt without a shift clashes with either shift
+const isSameMilking = (a: ReceiptInput, b: ReceiptInput) =>
+  formatReceiptDate(a.date) === formatReceiptDate(b.date) && (a.shift === b.shift || !a.shift || !b.shift)
+
+// Two at a time keeps Tesseract's memory use and Gemini's rate limit in check
+const CONCURRENCY = 2
+
+/**
+ * Review queue for several slips picked at once. Each image is compressed and
+ * read in the background, then waits for the user to accept, edit or discard
+ * it; accepted receipts are saved together through the outbox.
+ */
+export const useBatchQueue = () => {
+  const [items, setItems] = useState<BatchItem[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  // Shared by every read, so files added mid-batch wait their turn
+  const [limit] = useState(() => createLimiter(CONCURRENCY))
+
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)))
+  }, [])
+
+  const removeItem = useCallback((id: string) => {
+    setItems(prev => {
+      const item = prev.find(i => i.id === id)
+      if (item) URL.revokeObjectURL(item.previewUrl)
+      return prev.filter(i => i.id !== id)
+    })
+  }, [])
+
+  const readItems = useCallback(
+    async (batch: BatchItem[], extractor: ReceiptExtractor) => {
+      await Promise.all(
+        batch.map(item =>
+          limit(async () => {
+            try {
+              const { blob, data } = await readReceiptImage(item.file, extractor)
+              updateItem(item.id, { status: 'review', blob, data, error: undefined })
+            } catch (error) {
+              console.error(`Error reading ${item.file.name}:`, error)
+              updateItem(item.id, {
+                status: 'failed',
+                error: `Couldn't read this slip with ${extractor.label}`,
+              })
+            }
+          })
+        )
+      )
+    },
+    [limit, updateItem]
+  )
+
+  const addFiles = useCallback(
+    async (files: File[], extractor: ReceiptExtractor) => {
+      const added: BatchItem[] = files.map(file => ({
+        id: createId(),
+        file,
+        previewUrl: URL.createObjectURL(file),
+        status: 'processing',
+        blob: null,
+        data: null,
+      }))
+      setItems(prev => [...prev, ...added])
+      await readItems(added, extractor)
+    },
+    [readItems]
+  )
+
+  const retryItem = useCallback(
+    async (item: BatchItem, extractor: ReceiptExtractor) => {
+      const retried: BatchItem = { ...item, status: 'processing', error: undefined }
+      updateItem(item.id, retried)
+      await readItems([retried], extractor)
+    },
+    [updateItem, readItems]
+  )
+
+  const clear = useCallback(() => {
+    setItems(prev => {
+      prev.forEach(item => URL.revokeObjectURL(item.previewUrl))
+      return []
+    })
+  }, [])
+
+  // Returns how many receipts were queued; the rest stay in review with a reason
+  const saveAccepted = async (userId: string): Promise<number> => {
+    const accepted = items.filter(item => item.status === 'accepted' && item.data)
+    // Receipts queued earlier in this save, which the server check can't see yet
+    const queued: ReceiptInput[] = []
+    let saved = 0
+
+    setIsSaving(true)
+    try {
+      for (const item of accepted) {
+        try {
+          const receiptData = parsedDataToReceipt(item.data!)
+          const shift = receiptData.shift ? ` ${SHIFT_LABELS[receiptData.shift].toLowerCase()}` : ''
+
+          if (!item.allowDuplicate && queued.some(other => isSameMilking(other, receiptData))) {
+            updateItem(item.id, {
+              status: 'review',
+              allowDuplicate: true,
+              error: `Another${shift} slip for ${formatReceiptDate(receiptData.date)} is in this batch. Accept again to save both.`,
+            })
+            continue
+          }
+
+          // Duplicates can only be checked online; offline saves go straight to the outbox
+          if (navigator.onLine && !item.allowDuplicate) {
+            const conflicts = await findConflictingReceipts(
+              userId,
+              receiptData.date,
+              receiptData.shift
+            ).catch(() => [])
+            if (conflicts.length > 0) {
+              updateItem(item.id, {
+                status: 'review',
+                allowDuplicate: true,
+                error: `A${shift} receipt for ${formatReceiptDate(receiptData.date)} is already saved. Accept again to save it anyway.`,
+              })
+              continue
+            }
+          }
+
+          await queueReceipt(userId, receiptData, item.blob ?? undefined)
+          removeItem(item.id)
+          queued.push(receiptData)
+          saved++
+        } catch (error) {
+          updateItem(item.id, {
+            status: 'review',
+            error: error instanceof Error ? error.message : 'Failed to save receipt',
+          })
+        }
+      }
+
+      if (saved > 0 && navigator.onLine) {
+        await syncOutbox(userId)
+      }
+    } finally {
+      setIsSaving(false)
+    }
+
+    return saved
+  }
+
+  return { items, isSaving, addFiles, updateItem, removeItem, retryItem, clear, saveAccepted }
+}
+
+export type BatchQueue = ReturnType<typeof useBatchQueue>
@@ -0,0 +1,188 @@
+import {
+  addDays,
+  format,
+  getDaysInMonth,
+  parse,
+  startOfMonth,
+  startOfWeek,
+  subMonths,
+  subYears,
+} from 'date-fns'
+import { getSnfPercent, type Receipt } from '../services/receiptService'
+
+export interface ReceiptTotals {
+  count: number
+  quantity: number
+  fatKg: number
+  snfKg: number
+  amount: number
+  // Weighted by quantity, over the receipts that have the reading
+  avgFat: number | null
+  avgSnf: number | null
+}
+
+/** Fat kg from the slip, or worked out from quantity and fat %. */
+export const getFatKg = (receipt: Receipt): number | null =>
+  receipt.fat_kg ?? (receipt.fat !== null ? (receipt.quantity * receipt.fat) / 100 : null)
+
+/** SNF kg from the slip, or worked out from quantity and SNF %. */
+export const getSnfKg = (receipt: Receipt): number | null => {
+  if (receipt.snf_kg !== null) return receipt.snf_kg
+  const snf = getSnfPercent(receipt)
+  return snf !== null ? (receipt.quantity * snf) / 100 : null
+}
+
+export const summariseReceipts = (receipts: Receipt[]): ReceiptTotals => {
+  let fatQuantity = 0
+  let snfQuantity = 0
+  const totals = receipts.reduce(
+    (sum, receipt) => {
+      const fatKg = getFatKg(receipt)
+      const snfKg = getSnfKg(receipt)
+      if (fatKg !== null) fatQuantity += receipt.quantity
+      if (snfKg !== null) snfQuantity += receipt.quantity
+      return {
+        ...sum,
+        quantity: sum.quantity + receipt.quantity,
+        fatKg: sum.fatKg + (fatKg ?? 0),
+        snfKg: sum.snfKg + (snfKg ?? 0),
+        amount: sum.amount + receipt.amount,
+      }
+    },
+    { quantity: 0, fatKg: 0, snfKg: 0, amount: 0 }
+  )
+
+  return {
+    ...totals,
+    count: receipts.length,
+    avgFat: fatQuantity > 0 ? (totals.fatKg / fatQuantity) * 100 : null,
+    avgSnf: snfQuantity > 0 ? (totals.snfKg / snfQuantity) * 100 : null,
+  }
+}
+
+export type Granularity = 'day' | 'week' | 'month'
+
+export interface SeriesPoint {
+  key: string // first day of the bucket, YYYY-MM-DD
+  label: string
+  quantity: number
+  amount: number
+  fat: number | null
+  snf: number | null
+  // Amount per litre actually paid over the bucket
+  rate: number | null
+}
+
+const BUCKET_FORMATS: Record<Granularity, string> = {
+  day: 'd MMM',
+  week: "'w/c' d MMM",
+  month: 'MMM yyyy',
+}
+
+const bucketStart = (date: Date, granularity: Granularity): Date =>
+  granularity === 'day'
+    ? date
+    : granularity === 'week'
+      ? startOfWeek(date, { weekStartsOn: 1 })
+      : startOfMonth(date)
+
+const toPoint = (key: string, label: string, receipts: Receipt[]): SeriesPoint => {
+  const totals = summariseReceipts(receipts)
+  return {
+    key,
+    label,
+    quantity: totals.quantity,
+    amount: totals.amount,
+    fat: totals.avgFat,
+    snf: totals.avgSnf,
+    rate: totals.quantity > 0 ? totals.amount / totals.quantity : null,
+  }
+}
+
+/** Totals and quantity-weighted averages per day, week or month, oldest first. */
+export const getSeries = (receipts: Receipt[], granularity: Granularity): SeriesPoint[] => {
+  const buckets = new Map<string, Receipt[]>()
+  receipts.forEach((receipt) => {
+    const key = format(bucketStart(receipt.date, granularity), 'yyyy-MM-dd')
+    buckets.set(key, [...(buckets.get(key) ?? []), receipt])
+  })
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, bucket]) =>
+      toPoint(key, format(parse(key, 'yyyy-MM-dd', new Date()), BUCKET_FORMATS[granularity]), bucket)
+    )
+}
+
+export interface QualityPoint {
+  key: string
+  label: string
+  fat: number | null
+  snf: number | null
+  fatAvg: number | null
+  snfAvg: number | null
+}
+
+/**
+ * Daily fat and SNF % with a rolling average over the preceding `days`
+ * calendar days. The average is weighted by quantity, like the dairy's own.
+ */
+export const getQualityTrend = (receipts: Receipt[], days = 7): QualityPoint[] => {
+  // Bucketed once, so each window is a few map lookups rather than a pass over every receipt
+  const byDay = new Map<string, Receipt[]>()
+  receipts.forEach((receipt) => {
+    const day = format(receipt.date, 'yyyy-MM-dd')
+    const bucket = byDay.get(day)
+    if (bucket) bucket.push(receipt)
+    else byDay.set(day, [receipt])
+  })
+
+  return getSeries(receipts, 'day').map((point) => {
+    const end = parse(point.key, 'yyyy-MM-dd', new Date())
+    const window: Receipt[] = []
+    for (let i = 0; i < days; i++) {
+      window.push(...(byDay.get(format(addDays(end, -i), 'yyyy-MM-dd')) ?? []))
+    }
+    const totals = summariseReceipts(window)
+    return {
+      key: point.key,
+      label: point.label,
+      fat: point.fat,
+      snf: point.snf,
+      fatAvg: totals.avgFat,
+      snfAvg: totals.avgSnf,
+    }
+  })
+}
+
+export interface PeriodComparison {
+  label: string
+  current: ReceiptTotals
+  previous: ReceiptTotals
+}
+
+const totalsBetween = (receipts: Receipt[], start: Date, end: Date): ReceiptTotals => {
+  const from = format(start, 'yyyy-MM-dd')
+  const to = format(end, 'yyyy-MM-dd')
+  return summariseReceipts(
+    receipts.filter((receipt) => {
+      const day = format(receipt.date, 'yyyy-MM-dd')
+      return day >= from && day <= to
+    })
+  )
+}
+
+// The same days of an earlier month, capped at its length (31 Mar → 28 Feb)
+const sameDaysIn = (month: Date, today: Date): [Date, Date] => {
+  const start = startOfMonth(month)
+  return [start, addDays(start, Math.min(today.getDate(), getDaysInMonth(start)) - 1)]
+}
+
+/** This month so far against the same days last month and a year ago. */
+export const compareMonthToDate = (receipts: Receipt[], today: Date = new Date()): PeriodComparison[] => {
+  const current = totalsBetween(receipts, startOfMonth(today), today)
+  return [
+    { label: 'Last month', current, previous: totalsBetween(receipts, ...sameDaysIn(subMonths(today, 1), today)) },
+    { label: 'Last year', current, previous: totalsBetween(receipts, ...sameDaysIn(subYears(today, 1), today)) },
+  ]
+}
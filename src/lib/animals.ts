@@ -0,0 +1,8 @@
+import { differenceInMonths, parse } from 'date-fns'
+
+/** Age from a YYYY-MM-DD birth date, e.g. "4 y 3 m" or "7 m". */
+export const formatAge = (dateOfBirth: string, today: Date): string => {
+  const months = differenceInMonths(today, parse(dateOfBirth, 'yyyy-MM-dd', today))
+  if (months < 12) return `${Math.max(months, 0)} m`
+  return months % 12 === 0 ? `${months / 12} y` : `${Math.floor(months / 12)} y ${months % 12} m`
+}
@@ -0,0 +1,181 @@
+import { addDays, differenceInCalendarDays, format, parse } from 'date-fns'
+import type { AIRecord, AIRecordUpdate, BreedingStatus } from '../services/aiRecordService'
+
+// Days from insemination, using cow averages (buffalo gestation runs ~310)
+export const HEAT_RETURN_DAYS = 21
+export const PD_DUE_DAYS = 60
+export const GESTATION_DAYS = 283
+// Heat is watched for a few days either side of day 21
+const HEAT_WINDOW_DAYS = 3
+// Pregnant animals this close to their due date count as calving soon
+const CALVING_SOON_DAYS = 30
+
+export const BREEDING_STATUS_LABELS: Record<BreedingStatus, string> = {
+  inseminated: 'Awaiting PD',
+  returned: 'Returned to heat',
+  pregnant: 'Pregnant',
+  empty: 'Not pregnant',
+  calved: 'Calved',
+}
+
+export type BreedingOutcome = Exclude<BreedingStatus, 'inseminated'>
+
+// The outcomes that can be recorded from each status
+export const BREEDING_TRANSITIONS: Record<BreedingStatus, BreedingOutcome[]> = {
+  inseminated: ['returned', 'pregnant', 'empty'],
+  pregnant: ['calved'],
+  returned: [],
+  empty: [],
+  calved: [],
+}
+
+export const OUTCOME_LABELS: Record<BreedingOutcome, { action: string; dateLabel: string }> = {
+  returned: { action: 'Returned to heat', dateLabel: 'Seen in heat on' },
+  pregnant: { action: 'PD positive', dateLabel: 'PD done on' },
+  empty: { action: 'PD negative', dateLabel: 'PD done on' },
+  calved: { action: 'Calved', dateLabel: 'Calved on' },
+}
+
+const toDate = (day: string) => parse(day, 'yyyy-MM-dd', new Date())
+const toDay = (date: Date) => format(date, 'yyyy-MM-dd')
+
+export const toOutcomeUpdate = (outcome: BreedingOutcome, date: string): AIRecordUpdate => {
+  switch (outcome) {
+    case 'returned':
+      return { status: outcome, heat_return_date: date }
+    case 'pregnant':
+      return { status: outcome, pd_date: date, pd_result: 'positive' }
+    case 'empty':
+      return { status: outcome, pd_date: date, pd_result: 'negative' }
+    case 'calved':
+      return { status: outcome, calving_date: date }
+  }
+}
+
+/** Why an outcome can't be dated on that day, or null when it can. */
+export const validateOutcomeDate = (record: AIRecord, date: string, today: Date): string | null => {
+  if (!date) return 'Pick a date'
+  if (date < record.ai_date) return 'The date must be on or after the AI date'
+  if (date > toDay(today)) return 'The date cannot be in the future'
+  if (record.pd_date && date < record.pd_date) return 'The date must be on or after the PD'
+  return null
+}
+
+export interface BreedingDates {
+  heatCheck: string
+  pdDue: string
+  expectedCalving: string
+}
+
+export const getBreedingDates = (record: AIRecord): BreedingDates => {
+  const aiDate = toDate(record.ai_date)
+  return {
+    heatCheck: toDay(addDays(aiDate, HEAT_RETURN_DAYS)),
+    pdDue: toDay(addDays(aiDate, PD_DUE_DAYS)),
+    expectedCalving: toDay(addDays(aiDate, GESTATION_DAYS)),
+  }
+}
+
+/** 1 for a first insemination, counting back along the repeat_of links. */
+export const getAttemptNumber = (record: AIRecord, records: AIRecord[]): number => {
+  const byId = new Map(records.map((r) => [r.id, r]))
+  let attempt = 1
+  let previous = record.repeat_of ? byId.get(record.repeat_of) : undefined
+  // Bounded in case of a bad link back to itself
+  while (previous && attempt <= records.length) {
+    attempt++
+    previous = previous.repeat_of ? byId.get(previous.repeat_of) : undefined
+  }
+  return attempt
+}
+
+// A closed attempt with no repeat AI recorded after it yet
+export const needsRepeat = (record: AIRecord, records: AIRecord[]): boolean =>
+  (record.status === 'returned' || record.status === 'empty') &&
+  !records.some((r) => r.repeat_of === record.id)
+
+export interface BreedingAlert {
+  record: AIRecord
+  date: string
+  // Days until the date; negative once it has passed
+  daysUntil: number
+}
+
+export interface BreedingAlerts {
+  watchForHeat: BreedingAlert[]
+  dueForPd: BreedingAlert[]
+  calvingSoon: BreedingAlert[]
+}
+
+/**
+ * Animals needing attention: inseminated ones around day 21 (watch for a
+ * return to heat), inseminated ones past the PD day, and pregnant ones near
+ * or past their expected calving date.
+ */
+export const getBreedingAlerts = (records: AIRecord[], today: Date): BreedingAlerts => {
+  const alert = (record: AIRecord, date: string): BreedingAlert => ({
+    record,
+    date,
+    daysUntil: differenceInCalendarDays(toDate(date), today),
+  })
+  const byDate = (a: BreedingAlert, b: BreedingAlert) => a.date.localeCompare(b.date)
+
+  const inseminated = records.filter((r) => r.status === 'inseminated')
+  return {
+    watchForHeat: inseminated
+      .map((r) => alert(r, getBreedingDates(r).heatCheck))
+      .filter((a) => Math.abs(a.daysUntil) <= HEAT_WINDOW_DAYS)
+      .sort(byDate),
+    dueForPd: inseminated
+      .map((r) => alert(r, getBreedingDates(r).pdDue))
+      .filter((a) => a.daysUntil <= 0)
+      .sort(byDate),
+    calvingSoon: records
+      .filter((r) => r.status === 'pregnant')
+      .map((r) => alert(r, getBreedingDates(r).expectedCalving))
+      .filter((a) => a.daysUntil <= CALVING_SOON_DAYS)
+      .sort(byDate),
+  }
+}
+
+export interface ConceptionStats {
+  name: string
+  inseminations: number
+  // Attempts with a known result; those still awaiting PD are left out of the rate
+  resolved: number
+  conceived: number
+  // Share of resolved attempts that conceived, or null before any result
+  rate: number | null
+  cost: number
+}
+
+/**
+ * Conception rate per bull or per technician: inseminations that led to a
+ * pregnancy (or calving) out of those with a result. Records without the
+ * bull or technician entered are left out.
+ */
+export const getConceptionStats = (
+  records: AIRecord[],
+  by: 'bull' | 'technician'
+): ConceptionStats[] => {
+  const groups = new Map<string, AIRecord[]>()
+  records.forEach((r) => {
+    const name = r[by]
+    if (name) groups.set(name, [...(groups.get(name) ?? []), r])
+  })
+
+  return [...groups.entries()]
+    .map(([name, group]) => {
+      const resolved = group.filter((r) => r.status !== 'inseminated').length
+      const conceived = group.filter((r) => r.status === 'pregnant' || r.status === 'calved').length
+      return {
+        name,
+        inseminations: group.length,
+        resolved,
+        conceived,
+        rate: resolved > 0 ? (conceived / resolved) * 100 : null,
+        cost: group.reduce((sum, r) => sum + (r.cost ?? 0), 0),
+      }
+    })
+    .sort((a, b) => b.inseminations - a.inseminations || a.name.localeCompare(b.name))
+}
@@ -0,0 +1,31 @@
+/**
+ * Returns a function that runs async tasks with at most `limit` in flight,
+ * queueing the rest in the order they were added. One limiter shared across
+ * calls keeps OCR and API work from swamping a phone however many times
+ * images are added.
+ */
+export const createLimiter = (limit: number) => {
+  const queue: (() => void)[] = []
+  let active = 0
+
+  const startNext = () => {
+    if (active >= Math.max(limit, 1)) return
+    const start = queue.shift()
+    if (!start) return
+    active++
+    start()
+  }
+
+  return <T>(task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--
+            startNext()
+          })
+      })
+      startNext()
+    })
+}
@@ -0,0 +1,55 @@
+/**
+ * Parses CSV text into rows of cells. Handles quoted cells (with "" escapes
+ * and embedded newlines), CRLF line endings and tab-separated text pasted
+ * from a spreadsheet. Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? ''
+  const delimiter = firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ','
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell.trim())
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell.trim())
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  row.push(cell.trim())
+  rows.push(row)
+
+  return rows.filter((r) => r.some((c) => c !== ''))
+}
+
+// Quotes a cell only when it holds a delimiter, quote or line break
+const escapeCell = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+/** Formats rows as CSV text with CRLF line endings, as spreadsheets expect. */
+export const formatCsv = (rows: (string | number | null | undefined)[][]): string =>
+  rows.map((row) => row.map((cell) => escapeCell(cell == null ? '' : String(cell))).join(',')).join('\r\n')
@@ -0,0 +1,7 @@
+import { format, parse } from 'date-fns'
+
+/**
+ * Shows a YYYY-MM-DD day as DD/MM/YYYY. Parsed as a local date: new Date()
+ * reads it as UTC midnight, which is the day before west of Greenwich.
+ */
+export const formatDay = (day: string): string => format(parse(day, 'yyyy-MM-dd', new Date()), 'dd/MM/yyyy')
@@ -0,0 +1,141 @@
+import { format } from 'date-fns'
+import { formatCsv } from './csv'
+import {
+  formatReceiptDate,
+  getSnfPercent,
+  SHIFT_LABELS,
+  type Receipt,
+} from '../services/receiptService'
+
+export type ExportFormat = 'csv' | 'xlsx'
+
+interface ExportColumn {
+  header: string
+  value: (receipt: Receipt) => string | number | Date | null
+  // Decimal places for numbers, so CSV and Excel show the same precision
+  decimals?: number
+  // Summed into the monthly total rows
+  total?: boolean
+  width?: number
+}
+
+const COLUMNS: ExportColumn[] = [
+  { header: 'Date', value: (r) => r.date, width: 12 },
+  { header: 'Shift', value: (r) => (r.shift ? SHIFT_LABELS[r.shift] : null), width: 10 },
+  { header: 'Quantity (L)', value: (r) => r.quantity, decimals: 2, total: true },
+  { header: 'Fat %', value: (r) => r.fat, decimals: 1 },
+  { header: 'CLR', value: (r) => r.clr, decimals: 2 },
+  { header: 'SNF %', value: getSnfPercent, decimals: 2 },
+  { header: 'Fat Kg', value: (r) => r.fat_kg, decimals: 3, total: true },
+  { header: 'SNF Kg', value: (r) => r.snf_kg, decimals: 3, total: true },
+  { header: 'Base Rate', value: (r) => r.base_rate, decimals: 3 },
+  { header: 'Rate', value: (r) => r.rate, decimals: 2 },
+  { header: 'Amount', value: (r) => r.amount, decimals: 2, total: true },
+  { header: 'Image', value: (r) => r.image_url || null, width: 60 },
+]
+
+type ExportCell = string | number | Date | null
+
+interface ExportRow {
+  cells: ExportCell[]
+  isTotal: boolean
+}
+
+// Oldest first, so each month total follows its rows
+const byDateAndShift = (a: Receipt, b: Receipt) =>
+  a.date.getTime() - b.date.getTime() || (a.shift ?? '').localeCompare(b.shift ?? '')
+
+// Rows for each receipt, with a total row after each month
+const buildRows = (receipts: Receipt[]): ExportRow[] => {
+  const rows: ExportRow[] = []
+  let month: Receipt[] = []
+
+  const closeMonth = () => {
+    if (month.length === 0) return
+    rows.push({
+      isTotal: true,
+      cells: COLUMNS.map((column, i) => {
+        if (i === 0) return `Total ${format(month[0].date, 'MMMM yyyy')}`
+        if (!column.total) return null
+        return month.reduce((sum, receipt) => sum + ((column.value(receipt) as number | null) ?? 0), 0)
+      }),
+    })
+    month = []
+  }
+
+  [...receipts].sort(byDateAndShift).forEach((receipt) => {
+    if (month.length > 0 && format(month[0].date, 'yyyy-MM') !== format(receipt.date, 'yyyy-MM')) {
+      closeMonth()
+    }
+    month.push(receipt)
+    rows.push({ isTotal: false, cells: COLUMNS.map((column) => column.value(receipt)) })
+  })
+  closeMonth()
+
+  return rows
+}
+
+// Spreadsheets can run text starting with these (a tab or CR hides a formula behind it); the quote keeps it as text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+const formatCell = (cell: ExportCell, column: ExportColumn): string | null => {
+  if (cell instanceof Date) return formatReceiptDate(cell)
+  if (typeof cell === 'number') return cell.toFixed(column.decimals ?? 2)
+  return cell !== null && FORMULA_PREFIX.test(cell) ? `'${cell}` : cell
+}
+
+export const toCsvBlob = (receipts: Receipt[]): Blob => {
+  const rows = buildRows(receipts).map((row) =>
+    row.cells.map((cell, i) => formatCell(cell, COLUMNS[i]))
+  )
+  // The byte order mark makes Excel read the file as UTF-8 rather than the system code page
+  const csv = formatCsv([COLUMNS.map((column) => column.header), ...rows])
+  return new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' })
+}
+
+export const toXlsxBlob = async (receipts: Receipt[]): Promise<Blob> => {
+  // Loaded on demand; most sessions never export
+  const { default: writeXlsxFile } = await import('write-excel-file/browser')
+
+  const header = COLUMNS.map((column) => ({ value: column.header, fontWeight: 'bold' as const }))
+  const rows = buildRows(receipts).map((row) =>
+    row.cells.map((cell, i) => {
+      const column = COLUMNS[i]
+      const style = row.isTotal ? { fontWeight: 'bold' as const } : {}
+      if (cell instanceof Date) return { value: cell, type: Date, format: 'dd/mm/yyyy', ...style }
+      if (typeof cell === 'number') {
+        const decimals = column.decimals ?? 2
+        return { value: cell, type: Number, format: decimals > 0 ? `0.${'0'.repeat(decimals)}` : '0', ...style }
+      }
+      return cell === null ? null : { value: cell, type: String, ...style }
+    })
+  )
+
+  return writeXlsxFile([header, ...rows], {
+    sheet: 'Milk Records',
+    columns: COLUMNS.map((column) => ({ width: column.width ?? 11 })),
+    stickyRowsCount: 1,
+  }).toBlob()
+}
+
+/** Saves a blob through a temporary download link. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+export const exportReceipts = async (
+  receipts: Receipt[],
+  exportFormat: ExportFormat,
+  fileName: string
+) => {
+  const blob = exportFormat === 'csv' ? toCsvBlob(receipts) : await toXlsxBlob(receipts)
+  downloadBlob(blob, `${fileName}.${exportFormat}`)
+}
@@ -0,0 +1,38 @@
+import { addDays, format, parse } from 'date-fns'
+import type { HealthRecord } from '../services/healthRecordService'
+
+const toDate = (day: string) => parse(day, 'yyyy-MM-dd', new Date())
+const toDay = (date: Date) => format(date, 'yyyy-MM-dd')
+
+/**
+ * The last day an animal's milk is kept back after a treatment, or null when
+ * the drug has no withdrawal period. Counted on the safe side: the treatment
+ * day plus the full number of days after it.
+ */
+export const getWithdrawalEnd = (record: Pick<HealthRecord, 'date' | 'withdrawal_days'>): string | null =>
+  record.withdrawal_days > 0 ? toDay(addDays(toDate(record.date), record.withdrawal_days)) : null
+
+export interface Withdrawal {
+  animal: HealthRecord['animal']
+  // The treatment whose withdrawal runs out last
+  record: HealthRecord
+  until: string
+}
+
+/**
+ * Animals whose milk is withheld on a day (YYYY-MM-DD), one entry per animal
+ * with the latest end date among its treatments.
+ */
+export const getWithdrawals = (records: HealthRecord[], day: string): Withdrawal[] => {
+  const byAnimal = new Map<string, Withdrawal>()
+  records.forEach((record) => {
+    const until = getWithdrawalEnd(record)
+    if (!until || record.date > day || until < day) return
+
+    const current = byAnimal.get(record.animal_id)
+    if (!current || until > current.until) {
+      byAnimal.set(record.animal_id, { animal: record.animal, record, until })
+    }
+  })
+  return [...byAnimal.values()].sort((a, b) => a.animal.tag.localeCompare(b.animal.tag))
+}
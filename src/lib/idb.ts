@@ -0,0 +1,88 @@
+// Minimal promise wrapper around IndexedDB for the app's local stores.
+// Bump DB_VERSION and add the store to STORES when a new one is needed.
+
+const DB_NAME = 'milktrack'
+const DB_VERSION = 2
+
+const STORES: Record<string, string> = {
+  outbox: 'clientId',
+  // Also read and written by the service worker (public/reminders-sw.js)
+  reminders: 'id',
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        Object.entries(STORES).forEach(([name, keyPath]) => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath })
+          }
+        })
+      }
+
+      request.onsuccess = () => {
+        const db = request.result
+        // Let another tab or the service worker upgrade the database; the next call reopens it
+        db.onversionchange = () => {
+          db.close()
+          dbPromise = null
+        }
+        resolve(db)
+      }
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode)
+    const request = operation(tx.objectStore(storeName))
+    tx.oncomplete = () => resolve(request.result as T)
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+export const idbGetAll = <T>(storeName: string): Promise<T[]> =>
+  run<T[]>(storeName, 'readonly', (store) => store.getAll())
+
+export const idbGet = <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> =>
+  run<T | undefined>(storeName, 'readonly', (store) => store.get(key))
+
+export const idbPut = <T>(storeName: string, value: T): Promise<IDBValidKey> =>
+  run<IDBValidKey>(storeName, 'readwrite', (store) => store.put(value))
+
+export const idbDelete = (storeName: string, key: IDBValidKey): Promise<void> =>
+  run<void>(storeName, 'readwrite', (store) => store.delete(key))
+
+export const idbClear = (storeName: string): Promise<void> =>
+  run<void>(storeName, 'readwrite', (store) => store.clear())
+
+// crypto.randomUUID is only available in secure contexts, and the app is
+// often opened over plain http on the LAN during development.
+export const createId = (): string => {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  bytes[6] = (bytes[6] & 0x0f) | 0x40
+  bytes[8] = (bytes[8] & 0x3f) | 0x80
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
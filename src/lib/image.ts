@@ -0,0 +1,51 @@
+import { formatReceiptDate } from '../services/receiptService'
+
+// Longest side kept after compression; slips stay legible well below this
+const MAX_SIZE = 1600
+
+export const compressImage = (file: File): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = (e) => {
+      const img = new Image()
+      img.onload = () => {
+        const canvas = document.createElement('canvas')
+        const ctx = canvas.getContext('2d')
+
+        // Scale down to MAX_SIZE on the longer side, keeping the aspect ratio
+        let width = img.width
+        let height = img.height
+
+        if (width > height && width > MAX_SIZE) {
+          height = (height * MAX_SIZE) / width
+          width = MAX_SIZE
+        } else if (height > MAX_SIZE) {
+          width = (width * MAX_SIZE) / height
+          height = MAX_SIZE
+        }
+
+        canvas.width = width
+        canvas.height = height
+
+        // Draw and compress
+        ctx?.drawImage(img, 0, 0, width, height)
+        canvas.toBlob(
+          (blob) => {
+            if (blob) resolve(blob)
+            else reject(new Error('Compression failed'))
+          },
+          'image/jpeg',
+          0.85 // 85% quality - good balance between quality and size
+        )
+      }
+      img.onerror = reject
+      img.src = e.target?.result as string
+    }
+    reader.onerror = reject
+    reader.readAsDataURL(file)
+  })
+}
+
+// The file's last modified date, used when the slip's own date can't be read
+export const getImageCaptureDate = (file: File): string =>
+  formatReceiptDate(new Date(file.lastModified))
@@ -0,0 +1,8 @@
+// Standard lactometer relation used by Indian dairies (BIS/ISI formula):
+//   SNF % = CLR / 4 + 0.25 × Fat % + 0.44
+
+export const snfFromClr = (clr: number, fat: number): number =>
+  clr / 4 + 0.25 * fat + 0.44
+
+export const clrFromSnf = (snf: number, fat: number): number =>
+  4 * (snf - 0.25 * fat - 0.44)
@@ -0,0 +1,161 @@
+import { differenceInCalendarDays, format, parse, subDays } from 'date-fns'
+import type { Milking } from '../services/milkingService'
+import type { Receipt } from '../services/receiptService'
+import type { HealthRecord } from '../services/healthRecordService'
+import { getWithdrawals } from './health'
+
+// Home measures and the dairy's rarely agree exactly; gaps within the larger
+// of these are treated as a match
+const MATCH_TOLERANCE_LITRES = 1
+const MATCH_TOLERANCE_SHARE = 0.05
+
+const toDate = (day: string) => parse(day, 'yyyy-MM-dd', new Date())
+
+const sumLitres = (milkings: Milking[]) => milkings.reduce((sum, m) => sum + m.litres, 0)
+
+export type HerdCheckStatus = 'match' | 'short' | 'over' | 'no-receipt'
+
+export interface HerdCheck {
+  date: string
+  milked: number
+  dairy: number | null
+  // Milked minus what the dairy recorded; positive means less reached the slip
+  difference: number | null
+  status: HerdCheckStatus
+}
+
+/**
+ * Compares each day's milking log with the quantity on that day's receipts,
+ * newest day first. Only days with milkings logged are checked. Milk from
+ * animals under a withdrawal period that day never reaches the dairy, so it
+ * is left out of the milked total.
+ */
+export const checkAgainstReceipts = (
+  milkings: Milking[],
+  receipts: Receipt[],
+  healthRecords: HealthRecord[] = []
+): HerdCheck[] => {
+  const withheld = new Map<string, Set<string>>()
+  const isWithheld = (m: Milking) => {
+    let animals = withheld.get(m.date)
+    if (!animals) {
+      animals = new Set(getWithdrawals(healthRecords, m.date).map((w) => w.record.animal_id))
+      withheld.set(m.date, animals)
+    }
+    return animals.has(m.animal_id)
+  }
+
+  const milked = new Map<string, number>()
+  milkings.forEach((m) => {
+    if (isWithheld(m)) return
+    milked.set(m.date, (milked.get(m.date) ?? 0) + m.litres)
+  })
+
+  const dairy = new Map<string, number>()
+  receipts.forEach((r) => {
+    const day = format(r.date, 'yyyy-MM-dd')
+    dairy.set(day, (dairy.get(day) ?? 0) + r.quantity)
+  })
+
+  return [...milked.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([date, total]) => {
+      const recorded = dairy.get(date) ?? null
+      if (recorded === null) {
+        return { date, milked: total, dairy: null, difference: null, status: 'no-receipt' }
+      }
+
+      const difference = total - recorded
+      const tolerance = Math.max(MATCH_TOLERANCE_LITRES, recorded * MATCH_TOLERANCE_SHARE)
+      const status = Math.abs(difference) <= tolerance ? 'match' : difference > 0 ? 'short' : 'over'
+      return { date, milked: total, dairy: recorded, difference, status }
+    })
+}
+
+export interface LactationPoint {
+  // Days since calving (or since the first milking logged, when unknown)
+  day: number
+  date: string
+  litres: number
+}
+
+export interface Lactation {
+  start: string
+  // False when no calving is recorded before these milkings
+  fromCalving: boolean
+  points: LactationPoint[]
+  total: number
+  peak: LactationPoint | null
+}
+
+/**
+ * Splits an animal's daily yields into lactations, one per recorded calving.
+ * Days before the first known calving form a lactation of their own, counted
+ * from the first milking logged.
+ */
+export const getLactations = (milkings: Milking[], calvingDates: string[]): Lactation[] => {
+  const daily = new Map<string, number>()
+  milkings.forEach((m) => daily.set(m.date, (daily.get(m.date) ?? 0) + m.litres))
+  const calvings = [...calvingDates].sort()
+
+  const days = [...daily.entries()].sort(([a], [b]) => a.localeCompare(b))
+
+  const lactations = new Map<string, Lactation>()
+  days.forEach(([date, litres]) => {
+    const calving = calvings.filter((c) => c <= date).pop()
+    const key = calving ?? 'unknown'
+    const lactation = lactations.get(key) ?? {
+      start: calving ?? date,
+      fromCalving: !!calving,
+      points: [],
+      total: 0,
+      peak: null,
+    }
+
+    const point = { day: differenceInCalendarDays(toDate(date), toDate(lactation.start)), date, litres }
+    lactation.points.push(point)
+    lactation.total += litres
+    if (!lactation.peak || litres > lactation.peak.litres) lactation.peak = point
+    lactations.set(key, lactation)
+  })
+
+  return [...lactations.values()].sort((a, b) => a.start.localeCompare(b.start))
+}
+
+export interface YieldChange {
+  animalId: string
+  // Average litres per day over the last week and the week before
+  recent: number | null
+  previous: number | null
+  // Percentage change, or null without both weeks to compare
+  change: number | null
+}
+
+const dailyAverage = (milkings: Milking[]): number | null => {
+  const days = new Set(milkings.map((m) => m.date)).size
+  return days === 0 ? null : sumLitres(milkings) / days
+}
+
+/**
+ * Each animal's average daily yield this week against last week, biggest
+ * drop first, so cows producing less stand out.
+ */
+export const getYieldChanges = (milkings: Milking[], today: Date): YieldChange[] => {
+  const weekStart = format(subDays(today, 6), 'yyyy-MM-dd')
+  const previousStart = format(subDays(today, 13), 'yyyy-MM-dd')
+
+  const byAnimal = new Map<string, Milking[]>()
+  milkings.forEach((m) => byAnimal.set(m.animal_id, [...(byAnimal.get(m.animal_id) ?? []), m]))
+
+  return [...byAnimal.entries()]
+    .map(([animalId, animalMilkings]) => {
+      const recent = dailyAverage(animalMilkings.filter((m) => m.date >= weekStart))
+      const previous = dailyAverage(
+        animalMilkings.filter((m) => m.date >= previousStart && m.date < weekStart)
+      )
+      const change = recent !== null && previous ? ((recent - previous) / previous) * 100 : null
+      return { animalId, recent, previous, change }
+    })
+    .filter((c) => c.recent !== null || c.previous !== null)
+    .sort((a, b) => (a.change ?? Infinity) - (b.change ?? Infinity))
+}
@@ -0,0 +1,10 @@
+// Accepts values like "12.5", "₹1,234.50" or "4.2%" as read off a slip.
+// Formik hands number inputs back as numbers, so those pass through too.
+export const parseNumber = (value?: string | number | null): number | null => {
+  if (value === undefined || value === null) return null
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  const cleaned = value.replace(/[^0-9.-]/g, '')
+  if (cleaned === '') return null
+  const number = Number(cleaned)
+  return Number.isFinite(number) ? number : null
+}
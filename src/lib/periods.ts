@@ -0,0 +1,82 @@
+import { endOfMonth, format, isSameMonth, parse, startOfMonth } from 'date-fns'
+
+// Societies pay monthly, fortnightly (1–15, 16–end) or in 10-day cycles
+// (1–10, 11–20, 21–end)
+export type PeriodKind = 'month' | 'fortnight' | 'cycle'
+
+export const PERIOD_KIND_LABELS: Record<PeriodKind, string> = {
+  month: 'Month',
+  fortnight: 'Fortnight',
+  cycle: '10-day cycle',
+}
+
+export interface Period {
+  kind: PeriodKind
+  start: Date
+  end: Date
+  label: string
+}
+
+const formatRange = (start: Date, end: Date): string =>
+  isSameMonth(start, end)
+    ? `${format(start, 'd')}–${format(end, 'd MMM yyyy')}`
+    : `${format(start, 'd MMM')} – ${format(end, 'd MMM yyyy')}`
+
+// First day of each cycle within a month
+const CYCLE_STARTS: Record<Exclude<PeriodKind, 'month'>, number[]> = {
+  fortnight: [1, 16],
+  cycle: [1, 11, 21],
+}
+
+export const getPeriod = (date: Date, kind: PeriodKind): Period => {
+  if (kind === 'month') {
+    return {
+      kind,
+      start: startOfMonth(date),
+      end: endOfMonth(date),
+      label: format(date, 'MMMM yyyy'),
+    }
+  }
+
+  const starts = CYCLE_STARTS[kind]
+  const index = starts.filter((day) => day <= date.getDate()).length - 1
+  const start = new Date(date.getFullYear(), date.getMonth(), starts[index])
+  const end = index === starts.length - 1
+    ? endOfMonth(date)
+    : new Date(date.getFullYear(), date.getMonth(), starts[index + 1] - 1)
+
+  return { kind, start, end, label: formatRange(start, end) }
+}
+
+/**
+ * The period for a stored first and last day (YYYY-MM-DD). Its kind is the
+ * standard one the range matches, or a 10-day cycle for anything irregular.
+ */
+export const periodFromRange = (start: string, end: string): Period => {
+  const startDate = parse(start, 'yyyy-MM-dd', new Date())
+  const endDate = parse(end, 'yyyy-MM-dd', new Date())
+  const standard = (['month', 'fortnight', 'cycle'] as const)
+    .map((kind) => getPeriod(startDate, kind))
+    .find((period) => getPeriodKey(period) === `${start}_${end}`)
+
+  return standard ?? { kind: 'cycle', start: startDate, end: endDate, label: formatRange(startDate, endDate) }
+}
+
+// Stable key for a period, e.g. for select values and file names
+export const getPeriodKey = (period: Period): string =>
+  `${format(period.start, 'yyyy-MM-dd')}_${format(period.end, 'yyyy-MM-dd')}`
+
+export const isInPeriod = (date: Date, period: Period): boolean => {
+  const day = format(date, 'yyyy-MM-dd')
+  return day >= format(period.start, 'yyyy-MM-dd') && day <= format(period.end, 'yyyy-MM-dd')
+}
+
+/** The periods that contain any of the dates, newest first. */
+export const listPeriods = (dates: Date[], kind: PeriodKind): Period[] => {
+  const periods = new Map<string, Period>()
+  dates.forEach((date) => {
+    const period = getPeriod(date, kind)
+    periods.set(getPeriodKey(period), period)
+  })
+  return [...periods.values()].sort((a, b) => b.start.getTime() - a.start.getTime())
+}
@@ -0,0 +1,58 @@
+// Mirrors the RLS policies in SUPABASE_SCHEMA.sql so the UI can hide actions
+// the database would reject anyway. The database remains the source of truth.
+
+export type Role = 'admin' | 'member' | 'viewer'
+
+export type Permission =
+  | 'receipt:create'
+  | 'receipt:update'
+  | 'receipt:delete'
+  | 'ai-record:create'
+  | 'ai-record:update'
+  | 'ai-record:delete'
+  | 'animal:manage'
+  | 'milking:create'
+  | 'health-record:manage'
+  | 'profile:manage'
+  | 'rate-chart:manage'
+  | 'payment:create'
+  | 'payment:delete'
+  | 'expense:create'
+  | 'expense:update'
+  | 'expense:delete'
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'receipt:create',
+    'receipt:update',
+    'receipt:delete',
+    'ai-record:create',
+    'ai-record:update',
+    'ai-record:delete',
+    'animal:manage',
+    'milking:create',
+    'health-record:manage',
+    'profile:manage',
+    'rate-chart:manage',
+    'payment:create',
+    'payment:delete',
+    'expense:create',
+    'expense:update',
+    'expense:delete',
+  ],
+  member: [
+    'receipt:create',
+    'ai-record:create',
+    'ai-record:update',
+    'ai-record:delete',
+    'animal:manage',
+    'milking:create',
+    'health-record:manage',
+    'payment:create',
+    'expense:create',
+  ],
+  viewer: [],
+}
+
+export const hasPermission = (role: Role | null | undefined, permission: Permission): boolean =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission)
@@ -0,0 +1,102 @@
+import { addMonths, addWeeks, format, parse, startOfMonth } from 'date-fns'
+import type { Receipt } from '../services/receiptService'
+import type { Expense, ExpenseCategory } from '../services/expenseService'
+import { getSeries } from './analytics'
+
+const toDate = (day: string) => parse(day, 'yyyy-MM-dd', new Date())
+const toDay = (date: Date) => format(date, 'yyyy-MM-dd')
+const monthKey = (day: string) => toDay(startOfMonth(toDate(day)))
+
+/**
+ * The days (YYYY-MM-DD) an expense falls on up to and including `until`.
+ * A recurring one repeats from its date until recurs_until; monthly repeats
+ * on the 31st fall on the last day of shorter months.
+ */
+export const getOccurrences = (expense: Expense, until: string): string[] => {
+  if (expense.recurrence === 'none') {
+    return expense.date <= until ? [expense.date] : []
+  }
+
+  const last = expense.recurs_until && expense.recurs_until < until ? expense.recurs_until : until
+  const first = toDate(expense.date)
+  const step = expense.recurrence === 'weekly' ? addWeeks : addMonths
+  const days: string[] = []
+  // Stepping from the first date each time keeps monthly repeats from drifting after a short month
+  for (let i = 0; ; i++) {
+    const day = toDay(step(first, i))
+    if (day > last) break
+    days.push(day)
+  }
+  return days
+}
+
+export interface MonthlyProfitLoss {
+  key: string // first day of the month, YYYY-MM-DD
+  label: string
+  litres: number
+  income: number
+  expenses: number
+  byCategory: Partial<Record<ExpenseCategory, number>>
+  profit: number
+  // Null in months with no milk sold
+  costPerLitre: number | null
+  marginPerLitre: number | null
+}
+
+/**
+ * Receipt income against expenses for every month with either, newest first.
+ * Recurring expenses count once per occurrence up to today; future ones are
+ * left out until they happen.
+ */
+export const getMonthlyProfitLoss = (
+  receipts: Receipt[],
+  expenses: Expense[],
+  today: Date
+): MonthlyProfitLoss[] => {
+  const months = new Map<string, MonthlyProfitLoss>()
+  const month = (key: string): MonthlyProfitLoss => {
+    const existing = months.get(key)
+    if (existing) return existing
+
+    const created: MonthlyProfitLoss = {
+      key,
+      label: format(toDate(key), 'MMM yyyy'),
+      litres: 0,
+      income: 0,
+      expenses: 0,
+      byCategory: {},
+      profit: 0,
+      costPerLitre: null,
+      marginPerLitre: null,
+    }
+    months.set(key, created)
+    return created
+  }
+
+  getSeries(receipts, 'month').forEach((point) => {
+    const row = month(point.key)
+    row.litres = point.quantity
+    row.income = point.amount
+  })
+
+  const until = toDay(today)
+  expenses.forEach((expense) => {
+    getOccurrences(expense, until).forEach((day) => {
+      const row = month(monthKey(day))
+      row.expenses += expense.amount
+      row.byCategory[expense.category] = (row.byCategory[expense.category] ?? 0) + expense.amount
+    })
+  })
+
+  return [...months.values()]
+    .map((row) => {
+      const profit = row.income - row.expenses
+      return {
+        ...row,
+        profit,
+        costPerLitre: row.litres > 0 ? row.expenses / row.litres : null,
+        marginPerLitre: row.litres > 0 ? profit / row.litres : null,
+      }
+    })
+    .sort((a, b) => b.key.localeCompare(a.key))
+}
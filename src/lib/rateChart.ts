@@ -0,0 +1,91 @@
+import { format } from 'date-fns'
+import { parseCsv } from './csv'
+import { parseNumber } from './numbers'
+import { getSnfPercent, type Receipt } from '../services/receiptService'
+import type { RateChart, RateGrid } from '../services/rateChartService'
+
+// Tolerates float noise when a reading sits exactly on a chart step (4.3 vs 4.29999)
+const EPSILON = 1e-6
+
+/** The chart in force on a date: the latest one whose effective_from is not after it. */
+export const findChartForDate = (charts: RateChart[], date: Date): RateChart | null => {
+  const day = format(date, 'yyyy-MM-dd')
+  return charts
+    .filter((chart) => chart.effective_from <= day)
+    .reduce<RateChart | null>(
+      (latest, chart) => (!latest || chart.effective_from > latest.effective_from ? chart : latest),
+      null
+    )
+}
+
+// Index of the largest step not above value; charts pay by the step you've reached
+const stepIndex = (steps: number[], value: number): number => {
+  let index = -1
+  steps.forEach((step, i) => {
+    if (step <= value + EPSILON && (index === -1 || step > steps[index])) index = i
+  })
+  return index
+}
+
+const lookupGrid = (grid: RateGrid, fat: number, snf: number): number | null => {
+  const row = stepIndex(grid.fat, fat)
+  const col = stepIndex(grid.snf, snf)
+  if (row === -1 || col === -1) return null
+  return grid.rates[row]?.[col] ?? null
+}
+
+/**
+ * Rate per litre the chart in force on the receipt's date says should have
+ * been paid, or null when there is no chart or the receipt lacks the inputs.
+ */
+export const getExpectedRate = (receipt: Receipt, charts: RateChart[]): number | null => {
+  const chart = findChartForDate(charts, receipt.date)
+  const snf = getSnfPercent(receipt)
+  if (!chart || receipt.fat === null || snf === null) return null
+
+  if (chart.kind === 'grid') {
+    return chart.grid ? lookupGrid(chart.grid, receipt.fat, snf) : null
+  }
+
+  const base = chart.base_rate ?? receipt.base_rate
+  if (base === null || chart.fat_factor === null || chart.snf_factor === null) return null
+  return base * (receipt.fat * chart.fat_factor + snf * chart.snf_factor)
+}
+
+/**
+ * Money short-paid on a receipt: (expected − paid rate) × quantity. Negative
+ * values mean the dairy paid more than the chart; null when it can't be checked.
+ */
+export const getUnderpayment = (receipt: Receipt, charts: RateChart[]): number | null => {
+  const expected = getExpectedRate(receipt, charts)
+  if (expected === null || receipt.rate === null) return null
+  return (expected - receipt.rate) * receipt.quantity
+}
+
+/**
+ * Reads a grid pasted from a spreadsheet or CSV: the first row holds the SNF
+ * values (after a corner cell), each following row a fat value and its rates.
+ */
+export const parseRateGrid = (text: string): RateGrid => {
+  const [header, ...rows] = parseCsv(text)
+  if (!header || rows.length === 0) {
+    throw new Error('Paste a header row of SNF values and at least one row of rates')
+  }
+
+  const snf = header.slice(1).map((cell) => parseNumber(cell))
+  if (snf.length === 0 || snf.some((value) => value === null)) {
+    throw new Error('The header row must list SNF values after the first cell')
+  }
+
+  const fat: number[] = []
+  const rates = rows.map((row, i) => {
+    const fatValue = parseNumber(row[0])
+    if (fatValue === null) {
+      throw new Error(`Row ${i + 2} must start with a fat value`)
+    }
+    fat.push(fatValue)
+    return snf.map((_, j) => parseNumber(row[j + 1]))
+  })
+
+  return { fat, snf: snf as number[], rates }
+}
@@ -0,0 +1,137 @@
+import { format } from 'date-fns'
+import { validateReceipt, type ValidationIssue } from './receiptValidation'
+import {
+  deriveClr,
+  parsedDataToReceipt,
+  RECEIPT_FIELD_LABELS,
+  type ParsedData,
+  type Receipt,
+  type ReceiptField,
+  type ReceiptInput,
+} from '../services/receiptService'
+
+// Statements often give SNF % rather than CLR; it's converted like manual entry
+export type ImportTarget = ReceiptField | 'snf'
+
+// One target per CSV column, '' for columns that are ignored
+export type ColumnMapping = (ImportTarget | '')[]
+
+export const IMPORT_TARGETS: { value: ImportTarget; label: string }[] = [
+  ...Object.entries(RECEIPT_FIELD_LABELS).map(([value, label]) => ({
+    value: value as ReceiptField,
+    label,
+  })),
+  { value: 'snf', label: 'SNF %' },
+]
+
+// Header spellings seen in spreadsheets and society statements. Checked in
+// order, so the kg and base-rate patterns come before the plainer ones.
+const HEADER_PATTERNS: [ImportTarget, RegExp][] = [
+  ['date', /^(date|dt|day)$/],
+  ['shift', /^(shift|session|time|m\/?e)$/],
+  ['fatKg', /^fat\s*\(?kg\)?$|^kg\s*fat$|^f\.?\s*kg$/],
+  ['snfKg', /^snf\s*\(?kg\)?$|^kg\s*snf$|^s\.?\s*kg$/],
+  ['baseRate', /^base\s*rate$|^b\.?\s*rt$/],
+  ['quantity', /^(qty|quantity|litres?|liters?|ltrs?|milk)(\s*\(l(tr|itres?)?\))?$/],
+  ['fat', /^fat\s*%?$/],
+  ['snf', /^snf\s*%?$/],
+  ['clr', /^clr$|^lr$/],
+  ['rate', /^(avg\.?\s*)?rate$|^rt$/],
+  ['amount', /^(amount|amt|total|value|rs\.?)$/],
+]
+
+export const guessMapping = (header: string[]): ColumnMapping => {
+  const used = new Set<ImportTarget>()
+  return header.map((cell) => {
+    const normalised = cell.trim().toLowerCase()
+    const match = HEADER_PATTERNS.find(
+      ([target, pattern]) => !used.has(target) && pattern.test(normalised)
+    )
+    if (!match) return ''
+    used.add(match[0])
+    return match[0]
+  })
+}
+
+/**
+ * Brings the date spellings found in spreadsheets (05-03-2025, 5.3.25,
+ * 2025-03-05) to the DD/MM/YYYY the rest of the app reads.
+ */
+const normaliseDate = (value: string): string => {
+  const trimmed = value.trim()
+  if (/^\d{4}-\d{1,2}-\d{1,2}$/.test(trimmed)) return trimmed
+
+  const parts = trimmed.split(/[/.-]/)
+  if (parts.length !== 3) return trimmed
+  const [day, month, year] = parts
+  return `${day.padStart(2, '0')}/${month.padStart(2, '0')}/${year.length === 2 ? `20${year}` : year}`
+}
+
+export interface ImportRow {
+  line: number
+  data: ParsedData
+  receipt: ReceiptInput | null
+  error?: string
+  issues: ValidationIssue[]
+  // Clashes with a saved receipt, or with an earlier row of the same file
+  conflict?: 'existing' | 'file'
+}
+
+const dayKey = (date: Date) => format(date, 'yyyy-MM-dd')
+
+// Same rule as findConflictingReceipts: a missing shift clashes with either
+const clashes = (a: Pick<Receipt, 'date' | 'shift'>, b: Pick<Receipt, 'date' | 'shift'>) =>
+  dayKey(a.date) === dayKey(b.date) && (!a.shift || !b.shift || a.shift === b.shift)
+
+/**
+ * Turns mapped CSV rows into receipts, running the same checks as the upload
+ * flow and marking rows that clash with saved receipts or with each other.
+ * `firstLine` is the file line number of the first row, for messages.
+ */
+export const buildImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  existing: Receipt[],
+  firstLine: number
+): ImportRow[] => {
+  const accepted: ReceiptInput[] = []
+
+  return rows.map((cells, i) => {
+    const values: Partial<Record<ImportTarget, string>> = {}
+    mapping.forEach((target, column) => {
+      if (target && cells[column]) values[target] = cells[column]
+    })
+
+    const data: ParsedData = {
+      rawText: cells.join(', '),
+      date: values.date ? normaliseDate(values.date) : undefined,
+      shift: values.shift,
+      quantity: values.quantity,
+      fat: values.fat,
+      clr: values.clr ?? deriveClr(values.fat, values.snf),
+      fatKg: values.fatKg,
+      snfKg: values.snfKg,
+      baseRate: values.baseRate,
+      rate: values.rate,
+      amount: values.amount,
+    }
+    const row: ImportRow = { line: firstLine + i, data, receipt: null, issues: validateReceipt(data) }
+
+    try {
+      row.receipt = parsedDataToReceipt(data, 'import')
+    } catch (error) {
+      row.error = error instanceof Error ? error.message : 'Unreadable row'
+      return row
+    }
+
+    const receipt = row.receipt
+    if (existing.some((saved) => clashes(saved, receipt))) {
+      row.conflict = 'existing'
+    } else if (accepted.some((earlier) => clashes(earlier, receipt))) {
+      row.conflict = 'file'
+    }
+    accepted.push(receipt)
+
+    return row
+  })
+}
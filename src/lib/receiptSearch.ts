@@ -0,0 +1,136 @@
+import { format } from 'date-fns'
+import { parseNumber } from './numbers'
+import { parseReceiptDate, parseShift, type EntryType } from '../services/receiptService'
+
+export type FilterOperator = 'lt' | 'lte' | 'gt' | 'gte' | 'eq'
+
+// A condition on one receipts column, or a bare number that may equal any of
+// several columns
+export type ReceiptFilter =
+  | { column: string; operator: FilterOperator; value: string | number }
+  | { anyOf: string[]; value: number }
+
+const OPERATORS: Record<string, FilterOperator> = {
+  '<': 'lt',
+  '<=': 'lte',
+  '>': 'gt',
+  '>=': 'gte',
+  '=': 'eq',
+  ':': 'eq',
+}
+
+const NUMERIC_FIELDS: Record<string, string> = {
+  fat: 'fat',
+  clr: 'clr',
+  qty: 'quantity',
+  quantity: 'quantity',
+  litres: 'quantity',
+  ltr: 'quantity',
+  rate: 'rate',
+  amount: 'amount',
+  amt: 'amount',
+  fatkg: 'fat_kg',
+  snfkg: 'snf_kg',
+  base: 'base_rate',
+  baserate: 'base_rate',
+}
+
+// Columns a bare number is compared with
+const ANY_VALUE_COLUMNS = ['quantity', 'amount', 'rate', 'fat', 'clr']
+
+const ENTRY_TYPES: EntryType[] = ['camera', 'manual', 'import']
+
+const TOKEN = /^([a-z._]+)(<=|>=|<|>|=|:)(.+)$/
+
+const parseToken = (token: string): ReceiptFilter | string => {
+  const match = TOKEN.exec(token.toLowerCase())
+
+  if (!match) {
+    // Dates first, so a day such as 12/05/2024 is never taken for a number
+    const date = parseReceiptDate(token)
+    if (date) return { column: 'date', operator: 'eq', value: format(date, 'yyyy-MM-dd') }
+    const number = parseNumber(token)
+    if (number !== null) return { anyOf: ANY_VALUE_COLUMNS, value: number }
+    const shift = parseShift(token)
+    if (shift) return { column: 'shift', operator: 'eq', value: shift }
+    return `"${token}" isn't a search; try fat<3.5 or shift:evening`
+  }
+
+  const [, field, symbol, raw] = match
+  const operator = OPERATORS[symbol]
+  const name = field.replace(/[._]/g, '')
+
+  if (NUMERIC_FIELDS[name]) {
+    const value = parseNumber(raw)
+    return value === null ? `"${raw}" isn't a number` : { column: NUMERIC_FIELDS[name], operator, value }
+  }
+  if (name === 'date') {
+    const date = parseReceiptDate(raw)
+    return date ? { column: 'date', operator, value: format(date, 'yyyy-MM-dd') } : `"${raw}" isn't a date (DD/MM/YYYY)`
+  }
+  if (name === 'shift') {
+    const shift = parseShift(raw)
+    return shift && operator === 'eq' ? { column: 'shift', operator, value: shift } : 'Use shift:morning or shift:evening'
+  }
+  if (name === 'type' || name === 'entry') {
+    const type = ENTRY_TYPES.find((t) => t.startsWith(raw))
+    return type && operator === 'eq' ? { column: 'entry_type', operator, value: type } : 'Use type:camera, type:manual or type:import'
+  }
+  if (name === 'snf') {
+    return 'SNF % is worked out from CLR and fat, so search clr or snfkg instead'
+  }
+  return `Unknown field "${field}"`
+}
+
+/**
+ * Parses a records search such as `fat<3.5 qty>=10 shift:evening` into
+ * column filters the database can apply. Conditions are combined with AND;
+ * a bare date matches that day and a bare number matches quantity, amount,
+ * rate, fat or CLR.
+ */
+export const parseReceiptSearch = (search: string): { filters: ReceiptFilter[]; errors: string[] } => {
+  const tokens = search
+    .trim()
+    .replace(/\s*(<=|>=|<|>|=|:)\s*/g, '$1')
+    .split(/\s+/)
+    .filter(Boolean)
+
+  const filters: ReceiptFilter[] = []
+  const errors: string[] = []
+  tokens.forEach((token) => {
+    const result = parseToken(token)
+    if (typeof result === 'string') errors.push(result)
+    else filters.push(result)
+  })
+
+  return { filters, errors }
+}
+
+const COMPARISON = /^(<=|>=|<|>|=)?\s*([-\d.,]+)$/
+
+/**
+ * Whether a value passes a column filter such as `<3.5`, `>=10` or `4.2`. A
+ * plain number matches values that round to it, so `8.5` finds an SNF of
+ * 8.47. An empty or half-typed filter matches everything.
+ */
+export const matchesComparison = (value: number | null, expression: string): boolean => {
+  const match = COMPARISON.exec(expression.trim())
+  const target = match ? parseNumber(match[2]) : null
+  if (!match || target === null) return true
+  if (value === null) return false
+
+  switch (OPERATORS[match[1] ?? '=']) {
+    case 'lt':
+      return value < target
+    case 'lte':
+      return value <= target
+    case 'gt':
+      return value > target
+    case 'gte':
+      return value >= target
+    default: {
+      const decimals = match[2].split('.')[1]?.length ?? 0
+      return Number(value.toFixed(decimals)) === target
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { parseNumber } from './numbers'
+import { snfFromClr } from './milkComposition'
+import type { ParsedData, ReceiptField } from '../services/receiptService'
+
+export interface ValidationIssue {
+  field: ReceiptField
+  message: string
+  expected?: number
+}
+
+// Plausible ranges for cow and buffalo milk as tested at collection centres
+const FAT_RANGE = { min: 2.5, max: 12 }
+const CLR_RANGE = { min: 20, max: 36 }
+const SNF_RANGE = { min: 7, max: 10.5 }
+
+// Slips round each printed value, so products are compared with a tolerance:
+// whichever is larger of an absolute floor and a relative share of the value
+const withinTolerance = (actual: number, expected: number, absolute: number, relative: number) =>
+  Math.abs(actual - expected) <= Math.max(absolute, Math.abs(expected) * relative)
+
+/**
+ * Cross-checks extracted slip values against each other and against plausible
+ * ranges. Only checks whose inputs are all present are run, so a partially
+ * read slip isn't flagged for fields it doesn't show.
+ */
+export const validateReceipt = (data: Partial<ParsedData>): ValidationIssue[] => {
+  const issues: ValidationIssue[] = []
+
+  const quantity = parseNumber(data.quantity)
+  const fat = parseNumber(data.fat)
+  const clr = parseNumber(data.clr)
+  const fatKg = parseNumber(data.fatKg)
+  const snfKg = parseNumber(data.snfKg)
+  const rate = parseNumber(data.rate)
+  const amount = parseNumber(data.amount)
+
+  if (quantity !== null && rate !== null && amount !== null) {
+    const expected = quantity * rate
+    if (!withinTolerance(amount, expected, 1, 0.01)) {
+      issues.push({
+        field: 'amount',
+        message: 'Amount does not match quantity × rate',
+        expected: Number(expected.toFixed(2)),
+      })
+    }
+  }
+
+  if (quantity !== null && fat !== null && fatKg !== null) {
+    const expected = (quantity * fat) / 100
+    if (!withinTolerance(fatKg, expected, 0.02, 0.02)) {
+      issues.push({
+        field: 'fatKg',
+        message: 'Fat kg does not match quantity × fat %',
+        expected: Number(expected.toFixed(3)),
+      })
+    }
+  }
+
+  if (quantity !== null && clr !== null && fat !== null && snfKg !== null) {
+    const expected = (quantity * snfFromClr(clr, fat)) / 100
+    if (!withinTolerance(snfKg, expected, 0.03, 0.03)) {
+      issues.push({
+        field: 'snfKg',
+        message: 'SNF kg does not match quantity × SNF % (from CLR and fat)',
+        expected: Number(expected.toFixed(3)),
+      })
+    }
+  }
+
+  if (fat !== null && (fat < FAT_RANGE.min || fat > FAT_RANGE.max)) {
+    issues.push({
+      field: 'fat',
+      message: `Fat % outside the usual ${FAT_RANGE.min}–${FAT_RANGE.max} range`,
+    })
+  }
+
+  if (clr !== null && (clr < CLR_RANGE.min || clr > CLR_RANGE.max)) {
+    issues.push({
+      field: 'clr',
+      message: `CLR outside the usual ${CLR_RANGE.min}–${CLR_RANGE.max} range`,
+    })
+  } else if (clr !== null && fat !== null) {
+    const snf = snfFromClr(clr, fat)
+    if (snf < SNF_RANGE.min || snf > SNF_RANGE.max) {
+      issues.push({
+        field: 'clr',
+        message: `Implied SNF ${snf.toFixed(2)}% is outside the usual ${SNF_RANGE.min}–${SNF_RANGE.max}% range`,
+      })
+    }
+  }
+
+  return issues
+}
+
+// Below this the extractor was guessing; the value needs a human look
+export const LOW_CONFIDENCE = 0.7
+
+export const getLowConfidenceFields = (data: Partial<ParsedData>): ReceiptField[] =>
+  Object.entries(data.confidence ?? {})
+    .filter(([field, confidence]) =>
+      confidence !== undefined &&
+      confidence < LOW_CONFIDENCE &&
+      !!data[field as ReceiptField]
+    )
+    .map(([field]) => field as ReceiptField)
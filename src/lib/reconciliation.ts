@@ -0,0 +1,111 @@
+import { eachDayOfInterval, format, min } from 'date-fns'
+import { getPeriod, getPeriodKey, isInPeriod, periodFromRange, type Period, type PeriodKind } from './periods'
+import type { Receipt } from '../services/receiptService'
+import type { Payment } from '../services/paymentService'
+
+export type ReconciliationStatus = 'paid' | 'short' | 'over' | 'unpaid' | 'open'
+
+export interface ReconciliationRow {
+  period: Period
+  receipts: Receipt[]
+  receiptTotal: number
+  // Morning/evening slots in the elapsed part of the cycle with no slip
+  missingSlips: number
+  payments: Payment[]
+  received: number
+  deductions: number
+  // (received + deductions) − receipt total; negative means short-paid
+  difference: number | null
+  status: ReconciliationStatus
+}
+
+// Slips and bank credits are each rounded to the rupee
+const TOLERANCE = 1
+
+/**
+ * Slots without a slip between the period start and today. The shifts the
+ * farmer delivers are taken from the slips in the period, so a once-a-day
+ * supplier isn't flagged for every evening; a slip with no shift fills any slot.
+ */
+const countMissingSlips = (period: Period, receipts: Receipt[], today: Date): number => {
+  if (period.start > today) return 0
+
+  const shifts = new Set(receipts.map((r) => r.shift).filter(Boolean))
+  const perDay = Math.max(shifts.size, 1)
+  const byDay = receipts.reduce<Record<string, number>>((counts, r) => {
+    const day = format(r.date, 'yyyy-MM-dd')
+    counts[day] = (counts[day] ?? 0) + 1
+    return counts
+  }, {})
+
+  return eachDayOfInterval({ start: period.start, end: min([period.end, today]) }).reduce(
+    (missing, day) => missing + Math.max(perDay - (byDay[format(day, 'yyyy-MM-dd')] ?? 0), 0),
+    0
+  )
+}
+
+const getStatus = (period: Period, payments: Payment[], difference: number, today: Date): ReconciliationStatus => {
+  if (payments.length === 0) {
+    return format(period.end, 'yyyy-MM-dd') >= format(today, 'yyyy-MM-dd') ? 'open' : 'unpaid'
+  }
+  if (Math.abs(difference) <= TOLERANCE) return 'paid'
+  return difference < 0 ? 'short' : 'over'
+}
+
+/**
+ * Lines up each payment with the receipts in its cycle. Receipts no payment
+ * covers are grouped into cycles of the given kind and shown as unpaid (or
+ * open, for the cycle still running). Newest cycle first.
+ */
+export const reconcile = (
+  receipts: Receipt[],
+  payments: Payment[],
+  kind: PeriodKind,
+  today: Date = new Date()
+): ReconciliationRow[] => {
+  const periods = new Map<string, { period: Period; payments: Payment[] }>()
+
+  payments.forEach((payment) => {
+    const period = periodFromRange(payment.period_start, payment.period_end)
+    const key = getPeriodKey(period)
+    const entry = periods.get(key) ?? { period, payments: [] }
+    entry.payments.push(payment)
+    periods.set(key, entry)
+  })
+
+  const paidPeriods = [...periods.values()].map((entry) => entry.period)
+  receipts
+    .filter((receipt) => !paidPeriods.some((period) => isInPeriod(receipt.date, period)))
+    .forEach((receipt) => {
+      const period = getPeriod(receipt.date, kind)
+      const key = getPeriodKey(period)
+      if (!periods.has(key)) periods.set(key, { period, payments: [] })
+    })
+
+  return [...periods.values()]
+    .map(({ period, payments }) => {
+      // Unpaid cycles leave out receipts an overlapping payment already covers
+      const periodReceipts = receipts.filter(
+        (receipt) =>
+          isInPeriod(receipt.date, period) &&
+          (payments.length > 0 || !paidPeriods.some((paid) => isInPeriod(receipt.date, paid)))
+      )
+      const receiptTotal = periodReceipts.reduce((sum, r) => sum + r.amount, 0)
+      const received = payments.reduce((sum, p) => sum + p.amount, 0)
+      const deductions = payments.reduce((sum, p) => sum + p.deductions, 0)
+      const difference = received + deductions - receiptTotal
+
+      return {
+        period,
+        receipts: periodReceipts,
+        receiptTotal,
+        missingSlips: countMissingSlips(period, periodReceipts, today),
+        payments,
+        received,
+        deductions,
+        difference: payments.length > 0 ? difference : null,
+        status: getStatus(period, payments, difference, today),
+      }
+    })
+    .sort((a, b) => b.period.start.getTime() - a.period.start.getTime())
+}
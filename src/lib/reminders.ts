@@ -0,0 +1,95 @@
+import { addDays, format, parse, subDays } from 'date-fns'
+import type { AIRecord } from '../services/aiRecordService'
+import { getBreedingDates } from './breeding'
+
+// Windows in days after AI, inclusive
+const HEAT_WATCH_DAYS = [18, 24]
+const PD_WINDOW_DAYS = [60, 90]
+// Cows are usually dried off two months before calving
+const DRY_OFF_DAYS_BEFORE_CALVING = 60
+// Calving is watched from a week before the expected date until two weeks after
+const CALVING_WATCH_DAYS = [-7, 14]
+
+export type ReminderKind = 'heat' | 'pd' | 'dry-off' | 'calving'
+
+export const REMINDER_LABELS: Record<ReminderKind, string> = {
+  heat: 'Watch for heat',
+  pd: 'Pregnancy check',
+  'dry-off': 'Dry off',
+  calving: 'Calving due',
+}
+
+export interface Reminder {
+  // Stable across reloads so snooze and done survive a resync
+  id: string
+  recordId: string
+  kind: ReminderKind
+  animalTag: string
+  // YYYY-MM-DD, inclusive; the reminder is due on any day in between
+  start: string
+  end: string
+}
+
+const toDate = (day: string) => parse(day, 'yyyy-MM-dd', new Date())
+const toDay = (date: Date) => format(date, 'yyyy-MM-dd')
+
+/**
+ * The reminders an AI record calls for at its current status: heat watch and
+ * PD while awaiting the result, dry-off and calving once pregnant. Closed
+ * records (returned, empty, calved) have none.
+ */
+export const getReminders = (records: AIRecord[]): Reminder[] =>
+  records.flatMap((record) => {
+    const aiDate = toDate(record.ai_date)
+    const reminder = (kind: ReminderKind, start: Date, end: Date): Reminder => ({
+      id: `${record.id}:${kind}`,
+      recordId: record.id!,
+      kind,
+      animalTag: record.animal.tag,
+      start: toDay(start),
+      end: toDay(end),
+    })
+
+    if (record.status === 'inseminated') {
+      return [
+        reminder('heat', addDays(aiDate, HEAT_WATCH_DAYS[0]), addDays(aiDate, HEAT_WATCH_DAYS[1])),
+        reminder('pd', addDays(aiDate, PD_WINDOW_DAYS[0]), addDays(aiDate, PD_WINDOW_DAYS[1])),
+      ]
+    }
+    if (record.status === 'pregnant') {
+      const calving = toDate(getBreedingDates(record).expectedCalving)
+      return [
+        reminder('dry-off', subDays(calving, DRY_OFF_DAYS_BEFORE_CALVING), subDays(calving, 1)),
+        reminder('calving', addDays(calving, CALVING_WATCH_DAYS[0]), addDays(calving, CALVING_WATCH_DAYS[1])),
+      ]
+    }
+    return []
+  })
+
+/** Notification text for a reminder. */
+export const describeReminder = (reminder: Reminder): { title: string; body: string } => {
+  const formatDay = (date: Date) => date.toLocaleDateString('en-GB')
+  const window = `${formatDay(toDate(reminder.start))} – ${formatDay(toDate(reminder.end))}`
+  switch (reminder.kind) {
+    case 'heat':
+      return {
+        title: `${reminder.animalTag}: ${REMINDER_LABELS.heat}`,
+        body: `Check for signs of heat (${window}). A return means the AI did not take.`,
+      }
+    case 'pd':
+      return {
+        title: `${reminder.animalTag}: ${REMINDER_LABELS.pd}`,
+        body: `Pregnancy diagnosis is due (${window}).`,
+      }
+    case 'dry-off':
+      return {
+        title: `${reminder.animalTag}: ${REMINDER_LABELS['dry-off']}`,
+        body: `Stop milking to rest her before calving (${window}).`,
+      }
+    case 'calving':
+      return {
+        title: `${reminder.animalTag}: ${REMINDER_LABELS.calving}`,
+        body: `Expected on ${formatDay(subDays(toDate(reminder.start), CALVING_WATCH_DAYS[0]))}. Keep her close and watched.`,
+      }
+  }
+}
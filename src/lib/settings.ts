@@ -0,0 +1,53 @@
+import type { ExtractorId } from '../services/extraction'
+
+// Device-level preferences, kept in localStorage next to the auth session
+
+export interface AppSettings {
+  extractor: ExtractorId
+}
+
+const STORAGE_KEY = 'milktrack-settings'
+
+const DEFAULT_SETTINGS: AppSettings = {
+  extractor: 'gemini',
+}
+
+export const getSettings = (): AppSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS
+  } catch (error) {
+    console.error('Error reading settings:', error)
+    return DEFAULT_SETTINGS
+  }
+}
+
+export const updateSettings = (updates: Partial<AppSettings>): AppSettings => {
+  const settings = { ...getSettings(), ...updates }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  return settings
+}
+
+const RECORD_COLUMNS_KEY = 'milktrack-record-columns'
+
+// Column visibility on the records table, kept per user since family members
+// often share one phone. Null until the user has changed anything.
+export const getRecordColumns = (userId: string): Record<string, boolean> | null => {
+  try {
+    const stored = localStorage.getItem(RECORD_COLUMNS_KEY)
+    return stored ? JSON.parse(stored)[userId] ?? null : null
+  } catch (error) {
+    console.error('Error reading record columns:', error)
+    return null
+  }
+}
+
+export const saveRecordColumns = (userId: string, columns: Record<string, boolean>) => {
+  try {
+    const stored = localStorage.getItem(RECORD_COLUMNS_KEY)
+    const all = stored ? JSON.parse(stored) : {}
+    localStorage.setItem(RECORD_COLUMNS_KEY, JSON.stringify({ ...all, [userId]: columns }))
+  } catch (error) {
+    console.error('Error saving record columns:', error)
+  }
+}
@@ -0,0 +1,133 @@
+import { format } from 'date-fns'
+import { getPeriodKey, isInPeriod, type Period } from './periods'
+import { getFatKg, getSnfKg, summariseReceipts, type ReceiptTotals } from './analytics'
+import {
+  formatReceiptDate,
+  getSnfPercent,
+  SHIFT_LABELS,
+  type Receipt,
+} from '../services/receiptService'
+
+export interface Farmer {
+  name: string
+  phone?: string | null
+  email?: string | null
+}
+
+const SHIFT_ORDER = { morning: 0, evening: 1 }
+
+/** Receipts in the period in statement order: by date, morning before evening. */
+export const getStatementReceipts = (receipts: Receipt[], period: Period): Receipt[] =>
+  receipts
+    .filter((receipt) => isInPeriod(receipt.date, period))
+    .sort(
+      (a, b) =>
+        a.date.getTime() - b.date.getTime() ||
+        (a.shift ? SHIFT_ORDER[a.shift] : 2) - (b.shift ? SHIFT_ORDER[b.shift] : 2)
+    )
+
+const fixed = (value: number | null, decimals: number) =>
+  value === null ? '-' : value.toFixed(decimals)
+
+// Row of totals in the same columns as the receipt rows
+const totalsRow = (label: string, totals: ReceiptTotals) => [
+  label,
+  '',
+  fixed(totals.quantity, 2),
+  fixed(totals.avgFat, 2),
+  fixed(totals.avgSnf, 2),
+  fixed(totals.fatKg, 3),
+  fixed(totals.snfKg, 3),
+  '',
+  fixed(totals.amount, 2),
+]
+
+/**
+ * Builds a printable statement for one period entirely in the browser, so it
+ * works offline. The built-in PDF fonts have no ₹ glyph, hence "Rs.".
+ */
+export const generateStatementPdf = async (
+  receipts: Receipt[],
+  period: Period,
+  farmer: Farmer
+): Promise<{ blob: Blob; fileName: string }> => {
+  // Loaded on demand; most sessions never print a statement
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')])
+
+  const rows = getStatementReceipts(receipts, period)
+  const totals = summariseReceipts(rows)
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' })
+  const pageWidth = doc.internal.pageSize.getWidth()
+
+  doc.setFontSize(16)
+  doc.text('Milk Statement', 14, 18)
+  doc.setFontSize(11)
+  doc.text(period.kind === 'month' ? period.label : `Payment cycle ${period.label}`, 14, 25)
+  doc.setFontSize(9)
+  doc.text(`Generated ${format(new Date(), 'dd/MM/yyyy HH:mm')}`, pageWidth - 14, 18, { align: 'right' })
+
+  doc.setFontSize(10)
+  const farmerLines = [farmer.name, farmer.phone, farmer.email].filter(Boolean) as string[]
+  doc.text(farmerLines, 14, 34)
+
+  const shiftTotals = (['morning', 'evening'] as const)
+    .map((shift) => ({ shift, receipts: rows.filter((r) => r.shift === shift) }))
+    .filter(({ receipts }) => receipts.length > 0)
+    .map(({ shift, receipts }) => totalsRow(`${SHIFT_LABELS[shift]} total`, summariseReceipts(receipts)))
+
+  autoTable(doc, {
+    startY: 34 + farmerLines.length * 5 + 3,
+    head: [['Date', 'Shift', 'Qty (L)', 'Fat %', 'SNF %', 'Fat Kg', 'SNF Kg', 'Rate', 'Amount (Rs.)']],
+    body: rows.map((receipt) => [
+      formatReceiptDate(receipt.date),
+      receipt.shift ? SHIFT_LABELS[receipt.shift] : '-',
+      fixed(receipt.quantity, 2),
+      fixed(receipt.fat, 1),
+      fixed(getSnfPercent(receipt), 2),
+      fixed(getFatKg(receipt), 3),
+      fixed(getSnfKg(receipt), 3),
+      fixed(receipt.rate, 2),
+      fixed(receipt.amount, 2),
+    ]),
+    foot: [...shiftTotals, totalsRow('Total', totals)],
+    showFoot: 'lastPage',
+    theme: 'grid',
+    styles: { fontSize: 8.5, cellPadding: 1.5 },
+    headStyles: { fillColor: [102, 126, 234] },
+    footStyles: { fillColor: [240, 242, 255], textColor: [51, 51, 51] },
+    columnStyles: Object.fromEntries([2, 3, 4, 5, 6, 7, 8].map((i) => [i, { halign: 'right' }])),
+    didDrawPage: () => {
+      doc.setFontSize(8)
+      doc.text(
+        `Page ${doc.getNumberOfPages()}`,
+        pageWidth - 14,
+        doc.internal.pageSize.getHeight() - 8,
+        { align: 'right' }
+      )
+    },
+  })
+
+  let summaryY = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 8
+  // The summary is five lines; start a page rather than run off the bottom
+  if (summaryY + 25 > doc.internal.pageSize.getHeight() - 12) {
+    doc.addPage()
+    summaryY = 20
+  }
+  doc.setFontSize(10)
+  doc.text(
+    [
+      `Receipts: ${totals.count}`,
+      `Total quantity: ${fixed(totals.quantity, 2)} L`,
+      `Fat: ${fixed(totals.fatKg, 3)} kg (average ${fixed(totals.avgFat, 2)}%)`,
+      `SNF: ${fixed(totals.snfKg, 3)} kg (average ${fixed(totals.avgSnf, 2)}%)`,
+      `Total amount: Rs. ${fixed(totals.amount, 2)}`,
+    ],
+    14,
+    summaryY
+  )
+
+  return {
+    blob: doc.output('blob'),
+    fileName: `milk-statement_${getPeriodKey(period)}.pdf`,
+  }
+}
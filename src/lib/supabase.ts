@@ -18,3 +18,23 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
     flowType: 'pkce'
   }
 })
+
+// Rows per request; Supabase caps every select at 1000 rows unless paged
+const PAGE_SIZE = 1000
+
+/**
+ * Runs a select a page at a time until a short page comes back. The query
+ * must have a unique order (end with the id), or rows can be skipped or
+ * repeated between pages.
+ */
+export const fetchAllRows = async <T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> => {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    rows.push(...(data ?? []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
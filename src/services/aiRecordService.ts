@@ -1,17 +1,67 @@
 import { supabase } from "../lib/supabase";
+import type { Animal } from "./animalService";
+
+// Where an insemination stands (see supabase_breeding_lifecycle_migration.sql).
+// "returned" and "empty" close the attempt; a repeat AI is a new record.
+export type BreedingStatus = "inseminated" | "returned" | "pregnant" | "empty" | "calved";
 
 export interface AIRecord {
   id?: string;
   user_id: string;
-  animal_tag: string;
-  ai_date: string;
+  animal_id: string;
+  // Joined from animals for display
+  animal: Pick<Animal, "id" | "tag" | "name">;
+  ai_date: string; // YYYY-MM-DD
+  status: BreedingStatus;
+  heat_return_date: string | null;
+  pd_date: string | null;
+  pd_result: "positive" | "negative" | null;
+  calving_date: string | null;
+  // The earlier attempt on the same animal that this repeat AI follows
+  repeat_of: string | null;
+  // Insemination details (see supabase_ai_details_migration.sql)
+  bull: string | null; // Name or code
+  bull_breed: string | null;
+  straw_id: string | null;
+  technician: string | null;
+  cost: number | null;
+  remarks: string | null;
   created_at?: string;
 }
 
+// What is entered for an insemination; the breeding outcome is recorded separately
+export type AIRecordInput = Pick<
+  AIRecord,
+  "animal_id" | "ai_date" | "bull" | "bull_breed" | "straw_id" | "technician" | "cost" | "remarks"
+>;
+
+export type AIRecordUpdate = Partial<
+  Pick<AIRecord, "status" | "heat_return_date" | "pd_date" | "pd_result" | "calving_date"> &
+    AIRecordInput
+>;
+
+const SELECT_WITH_ANIMAL = "*, animal:animals(id, tag, name)";
+
+// Postgres numerics can come back as strings; the app works with numbers
+const fromRow = (row: AIRecord): AIRecord => ({
+  ...row,
+  cost: row.cost === null ? null : Number(row.cost),
+});
+
+// Blank text fields are stored as null so filters and stats don't see "" as a value
+const toRow = (input: AIRecordInput) => ({
+  ...input,
+  bull: input.bull?.trim() || null,
+  bull_breed: input.bull_breed?.trim() || null,
+  straw_id: input.straw_id?.trim() || null,
+  technician: input.technician?.trim() || null,
+  remarks: input.remarks?.trim() || null,
+});
+
 export const saveAIRecord = async (
   userId: string,
-  animalTag: string,
-  aiDate: string
+  input: AIRecordInput,
+  repeatOf: string | null = null
 ): Promise<string> => {
   try {
     const { data, error } = await supabase
@@ -19,8 +69,8 @@ export const saveAIRecord = async (
       .insert([
         {
           user_id: userId,
-          animal_tag: animalTag,
-          ai_date: aiDate,
+          ...toRow(input),
+          repeat_of: repeatOf,
         },
       ])
       .select()
@@ -39,19 +89,44 @@ export const getUserAIRecords = async (userId: string): Promise<AIRecord[]> => {
   try {
     const { data, error } = await supabase
       .from("ai_records")
-      .select("*")
+      .select(SELECT_WITH_ANIMAL)
       .eq("user_id", userId)
       .order("ai_date", { ascending: false });
 
     if (error) throw error;
 
-    return data || [];
+    return (data || []).map(fromRow);
   } catch (error) {
     console.error("Error fetching AI records:", error);
     throw error;
   }
 };
 
+export const updateAIRecord = async (
+  id: string,
+  updates: AIRecordUpdate
+): Promise<AIRecord> => {
+  try {
+    const { data, error } = await supabase
+      .from("ai_records")
+      .update(updates)
+      .eq("id", id)
+      .select(SELECT_WITH_ANIMAL)
+      .single();
+
+    if (error) throw error;
+
+    return fromRow(data);
+  } catch (error) {
+    console.error("Error updating AI record:", error);
+    throw error;
+  }
+};
+
+/** Saves corrections to what was entered for an insemination. */
+export const editAIRecord = (id: string, input: AIRecordInput): Promise<AIRecord> =>
+  updateAIRecord(id, toRow(input));
+
 export const deleteAIRecord = async (id: string): Promise<void> => {
   try {
     const { error } = await supabase
@@ -0,0 +1,151 @@
+import { supabase } from "../lib/supabase";
+import { uploadImage, removeImage } from "./imageStorage";
+
+// See supabase_animals_migration.sql
+export type AnimalStatus = "milking" | "dry" | "heifer" | "sold" | "dead";
+
+export const ANIMAL_STATUS_LABELS: Record<AnimalStatus, string> = {
+  milking: "Milking",
+  dry: "Dry",
+  heifer: "Heifer",
+  sold: "Sold",
+  dead: "Dead",
+};
+
+// Animals that have left the herd stay for their history but can't be picked
+export const isInHerd = (animal: Pick<Animal, "status">): boolean =>
+  animal.status !== "sold" && animal.status !== "dead";
+
+export interface Animal {
+  id: string;
+  user_id: string;
+  tag: string;
+  name: string | null;
+  breed: string | null;
+  date_of_birth: string | null; // YYYY-MM-DD
+  dam_id: string | null;
+  sire: string | null;
+  status: AnimalStatus;
+  photo_url: string | null;
+  created_at?: string;
+}
+
+export type AnimalInput = Omit<Animal, "id" | "user_id" | "photo_url" | "created_at">;
+
+// Postgres error codes surfaced as friendlier messages
+const UNIQUE_VIOLATION = "23505";
+const FOREIGN_KEY_VIOLATION = "23503";
+
+/** Tags are compared trimmed, with single spaces and in upper case. */
+export const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/\s+/g, " ").toUpperCase();
+
+const toRow = (animal: AnimalInput) => ({
+  ...animal,
+  tag: normalizeTag(animal.tag),
+  name: animal.name?.trim() || null,
+  breed: animal.breed?.trim() || null,
+  sire: animal.sire?.trim() || null,
+  date_of_birth: animal.date_of_birth || null,
+  dam_id: animal.dam_id || null,
+});
+
+const toFriendlyError = (error: unknown, tag: string): unknown =>
+  (error as { code?: string }).code === UNIQUE_VIOLATION
+    ? new Error(`An animal tagged ${normalizeTag(tag)} already exists`)
+    : error;
+
+const uploadPhoto = (userId: string, photo: Blob) =>
+  uploadImage(`animals/${userId}/${Date.now()}.jpg`, photo);
+
+export const getUserAnimals = async (userId: string): Promise<Animal[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("animals")
+      .select("*")
+      .eq("user_id", userId)
+      .order("tag", { ascending: true });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching animals:", error);
+    throw error;
+  }
+};
+
+export const saveAnimal = async (
+  userId: string,
+  animal: AnimalInput,
+  photo: Blob | null
+): Promise<Animal> => {
+  try {
+    const photoUrl = photo ? await uploadPhoto(userId, photo) : null;
+
+    const { data, error } = await supabase
+      .from("animals")
+      .insert([{ user_id: userId, ...toRow(animal), photo_url: photoUrl }])
+      .select()
+      .single();
+
+    if (error) {
+      if (photoUrl) await removeImage(photoUrl);
+      throw toFriendlyError(error, animal.tag);
+    }
+
+    return data;
+  } catch (error) {
+    console.error("Error saving animal:", error);
+    throw error;
+  }
+};
+
+/** Updates an animal; a new photo replaces the old one. */
+export const updateAnimal = async (
+  existing: Animal,
+  animal: AnimalInput,
+  photo: Blob | null
+): Promise<Animal> => {
+  try {
+    const photoUrl = photo ? await uploadPhoto(existing.user_id, photo) : existing.photo_url;
+
+    const { data, error } = await supabase
+      .from("animals")
+      .update({ ...toRow(animal), photo_url: photoUrl })
+      .eq("id", existing.id)
+      .select()
+      .single();
+
+    if (error) {
+      if (photo) await removeImage(photoUrl);
+      throw toFriendlyError(error, animal.tag);
+    }
+
+    if (photo) await removeImage(existing.photo_url);
+    return data;
+  } catch (error) {
+    console.error("Error updating animal:", error);
+    throw error;
+  }
+};
+
+export const deleteAnimal = async (animal: Animal): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from("animals")
+      .delete()
+      .eq("id", animal.id);
+
+    if (error) {
+      throw error.code === FOREIGN_KEY_VIOLATION
+        ? new Error(`${animal.tag} has records, so it can't be deleted. Mark it sold or dead instead.`)
+        : error;
+    }
+
+    await removeImage(animal.photo_url);
+  } catch (error) {
+    console.error("Error deleting animal:", error);
+    throw error;
+  }
+};
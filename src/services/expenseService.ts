@@ -0,0 +1,143 @@
+import { fetchAllRows, supabase } from "../lib/supabase";
+import { uploadImage, removeImage } from "./imageStorage";
+
+// See supabase_expenses_migration.sql
+export type ExpenseCategory = "feed" | "fodder" | "veterinary" | "ai" | "labour" | "other";
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  feed: "Feed",
+  fodder: "Fodder",
+  veterinary: "Vet & medicines",
+  ai: "AI charges",
+  labour: "Labour",
+  other: "Other",
+};
+
+export type Recurrence = "none" | "weekly" | "monthly";
+
+export const RECURRENCE_LABELS: Record<Recurrence, string> = {
+  none: "One-off",
+  weekly: "Every week",
+  monthly: "Every month",
+};
+
+export interface Expense {
+  id: string;
+  user_id: string;
+  // The first occurrence for a recurring expense
+  date: string; // YYYY-MM-DD
+  category: ExpenseCategory;
+  amount: number;
+  description: string | null;
+  image_url: string | null;
+  recurrence: Recurrence;
+  recurs_until: string | null; // YYYY-MM-DD, inclusive
+  created_at?: string;
+}
+
+export type ExpenseInput = Omit<Expense, "id" | "user_id" | "image_url" | "created_at">;
+
+// Postgres numerics can come back as strings; the app works with numbers
+const fromRow = (row: Expense): Expense => ({
+  ...row,
+  amount: Number(row.amount),
+});
+
+const toRow = (expense: ExpenseInput) => ({
+  ...expense,
+  description: expense.description?.trim() || null,
+  recurs_until: expense.recurrence === "none" ? null : expense.recurs_until || null,
+});
+
+// Paged like receipts; daily feed and wage entries pass the row limit within a few years
+export const getUserExpenses = async (userId: string): Promise<Expense[]> => {
+  try {
+    const rows = await fetchAllRows<Expense>((from, to) =>
+      supabase
+        .from("expenses")
+        .select("*")
+        .eq("user_id", userId)
+        .order("date", { ascending: false })
+        .order("id")
+        .range(from, to)
+    );
+
+    return rows.map(fromRow);
+  } catch (error) {
+    console.error("Error fetching expenses:", error);
+    throw error;
+  }
+};
+
+/** Saves an expense, uploading the bill photo first when there is one. */
+export const saveExpense = async (
+  userId: string,
+  expense: ExpenseInput,
+  photo: Blob | null
+): Promise<Expense> => {
+  try {
+    const imageUrl = photo
+      ? await uploadImage(`expenses/${userId}/${Date.now()}.jpg`, photo)
+      : null;
+
+    const { data, error } = await supabase
+      .from("expenses")
+      .insert([{ user_id: userId, ...toRow(expense), image_url: imageUrl }])
+      .select()
+      .single();
+
+    if (error) {
+      if (imageUrl) await removeImage(imageUrl);
+      throw error;
+    }
+
+    return fromRow(data);
+  } catch (error) {
+    console.error("Error saving expense:", error);
+    throw error;
+  }
+};
+
+/** Ends a recurring expense; occurrences up to and including lastDate stay. */
+export const stopRecurringExpense = async (
+  id: string,
+  lastDate: string
+): Promise<Expense> => {
+  try {
+    const { data, error } = await supabase
+      .from("expenses")
+      .update({ recurs_until: lastDate })
+      .eq("id", id)
+      .select();
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new Error("Only admins can change expenses");
+    }
+
+    return fromRow(data[0]);
+  } catch (error) {
+    console.error("Error stopping recurring expense:", error);
+    throw error;
+  }
+};
+
+export const deleteExpense = async (expense: Expense): Promise<void> => {
+  try {
+    const { data, error } = await supabase
+      .from("expenses")
+      .delete()
+      .eq("id", expense.id)
+      .select("id");
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new Error("Only admins can delete expenses");
+    }
+
+    await removeImage(expense.image_url);
+  } catch (error) {
+    console.error("Error deleting expense:", error);
+    throw error;
+  }
+};
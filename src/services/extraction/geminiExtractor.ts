@@ -0,0 +1,175 @@
+import { GoogleGenerativeAI, SchemaType, type Schema } from "@google/generative-ai";
+import {
+  parseReceiptDate,
+  parseShift,
+  type ParsedData,
+  type ReceiptField,
+} from "../receiptService";
+import type { ReceiptExtractor } from "./types";
+
+const PROMPT = `Please analyze this dairy receipt/slip image and extract its values.
+
+IMPORTANT: In the upper section of the receipt, the top 4 items are usually:
+1. QTY (Quantity in liters)
+2. FAT (Fat percentage)
+3. CLR (Corrected Lactometer Reading value)
+4. RATE (Base rate - this is usually shown in PAISE. Convert it to RUPEES by dividing by 100)
+
+The "Avg. Rate" shown below these 4 items is the ACTUAL calculated rate that should be used.
+
+Fields:
+- date: date in DD/MM/YYYY format
+- shift: "morning" or "evening" if the slip shows the shift (M/E, AM/PM, Morning/Evening)
+- quantity: quantity in liters from the QTY field
+- fat: fat percentage from the FAT field
+- clr: CLR value
+- fatKg: fat in kg if shown
+- snfKg: SNF in kg if shown
+- baseRate: the base RATE from the top section converted to RUPEES (e.g., 70.50 paise is 0.705)
+- rate: the Avg. Rate or calculated rate shown below, in rupees
+- amount: total amount in rupees
+
+For every field give the value and your confidence from 0 to 1 that it is read correctly
+(lower it for blurred, smudged, folded or ambiguous digits). Use null for the value of any
+field that is not clearly visible, with confidence 0.`;
+
+type NumericField = Exclude<ReceiptField, "date" | "shift">;
+
+const NUMERIC_FIELDS: NumericField[] = [
+  "quantity",
+  "fat",
+  "clr",
+  "fatKg",
+  "snfKg",
+  "baseRate",
+  "rate",
+  "amount",
+];
+
+const fieldSchema = (value: Schema): Schema => ({
+  type: SchemaType.OBJECT,
+  properties: {
+    value: { ...value, nullable: true },
+    confidence: { type: SchemaType.NUMBER },
+  },
+  required: ["value", "confidence"],
+});
+
+const RESPONSE_SCHEMA: Schema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    date: fieldSchema({ type: SchemaType.STRING, description: "DD/MM/YYYY" }),
+    shift: fieldSchema({
+      type: SchemaType.STRING,
+      format: "enum",
+      enum: ["morning", "evening"],
+    }),
+    ...Object.fromEntries(
+      NUMERIC_FIELDS.map((field) => [field, fieldSchema({ type: SchemaType.NUMBER })])
+    ),
+  },
+  required: ["date", "shift", ...NUMERIC_FIELDS],
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const readConfidence = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value) ? Math.min(Math.max(value, 0), 1) : 0;
+
+/**
+ * Checks Gemini's JSON against the fields we asked for. The response schema
+ * makes the shape likely but not guaranteed, so anything of the wrong type is
+ * dropped rather than shown as if it had been read.
+ */
+export const parseGeminiResponse = (json: unknown, rawText: string): ParsedData => {
+  if (!isRecord(json)) {
+    throw new Error("Gemini returned an unexpected response");
+  }
+
+  const result: ParsedData = { rawText, confidence: {} };
+  const read = (field: ReceiptField): { value: unknown; confidence: number } | null => {
+    const entry = json[field];
+    if (!isRecord(entry) || entry.value === null || entry.value === undefined) return null;
+    return { value: entry.value, confidence: readConfidence(entry.confidence) };
+  };
+
+  for (const field of NUMERIC_FIELDS) {
+    const entry = read(field);
+    if (entry && typeof entry.value === "number" && Number.isFinite(entry.value)) {
+      result[field] = String(entry.value);
+      result.confidence![field] = entry.confidence;
+    }
+  }
+
+  const date = read("date");
+  if (date && typeof date.value === "string" && parseReceiptDate(date.value)) {
+    result.date = date.value;
+    result.confidence!.date = date.confidence;
+  }
+
+  const shift = read("shift");
+  const shiftValue = shift && typeof shift.value === "string" ? parseShift(shift.value) : null;
+  if (shift && shiftValue) {
+    result.shift = shiftValue;
+    result.confidence!.shift = shift.confidence;
+  }
+
+  return result;
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const result = e.target?.result as string;
+      resolve(result.split(",")[1]);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const geminiExtractor: ReceiptExtractor = {
+  id: "gemini",
+  label: "Gemini AI",
+  description: "Google Gemini vision model. Most accurate; needs a connection and an API key.",
+
+  unavailableReason: () =>
+    import.meta.env.VITE_GEMINI_API_KEY
+      ? null
+      : "Please add your Gemini API key to .env.local file:\nVITE_GEMINI_API_KEY=your_api_key_here\n\nGet your free API key from: https://makersuite.google.com/app/apikey\n\nThen restart the dev server.",
+
+  extract: async (image: Blob): Promise<ParsedData> => {
+    const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY);
+    const model = genAI.getGenerativeModel({
+      model: "gemini-2.5-flash",
+      generationConfig: {
+        responseMimeType: "application/json",
+        responseSchema: RESPONSE_SCHEMA,
+      },
+    });
+
+    const result = await model.generateContent([
+      PROMPT,
+      {
+        inlineData: {
+          data: await blobToBase64(image),
+          mimeType: image.type || "image/jpeg",
+        },
+      },
+    ]);
+
+    const responseText = result.response.text();
+    if (import.meta.env.DEV) console.log("Gemini Response:", responseText);
+
+    let json: unknown;
+    try {
+      json = JSON.parse(responseText);
+    } catch {
+      throw new Error("Gemini did not return valid JSON");
+    }
+
+    return parseGeminiResponse(json, responseText);
+  },
+};
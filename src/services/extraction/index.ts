@@ -0,0 +1,39 @@
+import { geminiExtractor } from "./geminiExtractor";
+import { tesseractExtractor } from "./tesseractExtractor";
+import { mockExtractor } from "./mockExtractor";
+import type { ExtractorId, ReceiptExtractor } from "./types";
+import type { ParsedData } from "../receiptService";
+import { compressImage, getImageCaptureDate } from "../../lib/image";
+
+export type { ExtractorId, ReceiptExtractor } from "./types";
+export { parseSlipText } from "./slipParser";
+
+export const EXTRACTORS: ReceiptExtractor[] = [
+  geminiExtractor,
+  tesseractExtractor,
+  mockExtractor,
+];
+
+export const getExtractor = (id: ExtractorId): ReceiptExtractor =>
+  EXTRACTORS.find((extractor) => extractor.id === id) ?? geminiExtractor;
+
+/**
+ * Compresses a picked image and reads it with the extractor. Falls back to the
+ * file's date when the slip's own date can't be read.
+ */
+export const readReceiptImage = async (
+  file: File,
+  extractor: ReceiptExtractor
+): Promise<{ blob: Blob; data: ParsedData }> => {
+  const blob = await compressImage(file);
+  if (import.meta.env.DEV) {
+    console.log(
+      `Original size: ${(file.size / 1024).toFixed(2)}KB, Compressed size: ${(
+        blob.size / 1024
+      ).toFixed(2)}KB`
+    );
+  }
+
+  const data = await extractor.extract(blob);
+  return { blob, data: { ...data, date: data.date || getImageCaptureDate(file) } };
+};
@@ -0,0 +1,47 @@
+import type { ParsedData } from "../receiptService";
+import { parseSlipText } from "./slipParser";
+import type { ReceiptExtractor } from "./types";
+
+// Slip texts in the layout the collection centre prints, run through the same
+// parser as real OCR output so the whole offline path is exercised
+const FIXTURES = [
+  `DATE 05/03/2025  SHIFT M
+QTY   12.5
+FAT   4.2
+CLR   27.5
+RATE  70.50
+AVG RATE 41.80
+FAT KG 0.525
+SNF KG 1.046
+AMOUNT 522.50`,
+  `DATE 05/03/2025  SHIFT E
+QTY   10.0
+FAT   4.6
+CLR   28.0
+RATE  70.50
+AVG RATE 43.40
+FAT KG 0.460
+SNF KG 0.874
+AMOUNT 434.00`,
+  `DATE 06/03/2025  SHIFT M
+QTY   11.2
+FAT   6.8
+CLR   29.0
+RATE  70.50
+AVG RATE 52.10
+FAT KG 0.762
+SNF KG 1.054
+AMOUNT 583.52`,
+];
+
+export const mockExtractor: ReceiptExtractor = {
+  id: "mock",
+  label: "Test fixtures",
+  description: "Returns a fixed sample slip chosen by image size. For testing without a camera or network.",
+
+  unavailableReason: () => null,
+
+  // Same image in, same slip out
+  extract: async (image: Blob): Promise<ParsedData> =>
+    parseSlipText(FIXTURES[image.size % FIXTURES.length]),
+};
@@ -0,0 +1,62 @@
+import type { ParsedData, ReceiptField } from "../receiptService";
+
+// Label patterns as printed on the collection centre's thermal slips. OCR
+// often drops dots and colons, so separators between label and value are loose.
+const NUMBER = "(-?\\d+(?:[.,]\\d+)?)";
+const SEPARATOR = "[\\s:=.-]*";
+
+const field = (labels: string) =>
+  new RegExp(`(?:^|\\s)(?:${labels})${SEPARATOR}${NUMBER}`, "im");
+
+const PATTERNS: Partial<Record<ReceiptField, RegExp>> = {
+  quantity: field("qty|quantity|ltr|litres?"),
+  fatKg: field("fat\\s*kg|kg\\s*fat"),
+  snfKg: field("snf\\s*kg|kg\\s*snf"),
+  fat: field("fat(?!\\s*kg)\\s*%?"),
+  clr: field("clr"),
+  rate: field("avg\\.?\\s*rate|average\\s*rate"),
+  amount: field("amount|amt|total"),
+};
+
+const BASE_RATE_PATTERN = new RegExp(`(?:^|\\s)(?<!avg\\.?\\s*)rate${SEPARATOR}${NUMBER}`, "im");
+const DATE_PATTERN = /(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/;
+const SHIFT_PATTERN = /\b(morning|evening|mor|eve|shift\s*[:-]?\s*([me]))\b/i;
+
+const toNumberText = (value: string) => value.replace(",", ".");
+
+/**
+ * Reads field values out of OCR text from a dairy slip. The base rate is
+ * printed in paise and converted to rupees, matching what the Gemini
+ * extractor returns.
+ */
+export const parseSlipText = (text: string): ParsedData => {
+  const result: ParsedData = { rawText: text };
+
+  for (const [key, pattern] of Object.entries(PATTERNS)) {
+    const match = text.match(pattern);
+    if (match) {
+      result[key as keyof typeof PATTERNS] = toNumberText(match[1]);
+    }
+  }
+
+  const baseRate = text.match(BASE_RATE_PATTERN);
+  if (baseRate) {
+    const paise = Number(toNumberText(baseRate[1]));
+    if (Number.isFinite(paise)) result.baseRate = String(paise / 100);
+  }
+
+  const date = text.match(DATE_PATTERN);
+  if (date) {
+    const [, day, month, year] = date;
+    const fullYear = year.length === 2 ? `20${year}` : year;
+    result.date = `${day.padStart(2, "0")}/${month.padStart(2, "0")}/${fullYear}`;
+  }
+
+  const shift = text.match(SHIFT_PATTERN);
+  if (shift) {
+    const word = (shift[2] ?? shift[1]).toLowerCase();
+    result.shift = word.startsWith("m") ? "morning" : "evening";
+  }
+
+  return result;
+};
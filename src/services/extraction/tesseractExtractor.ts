@@ -0,0 +1,25 @@
+import { createWorker } from "tesseract.js";
+import type { ParsedData } from "../receiptService";
+import { parseSlipText } from "./slipParser";
+import type { ReceiptExtractor } from "./types";
+
+export const tesseractExtractor: ReceiptExtractor = {
+  id: "tesseract",
+  label: "On-device OCR",
+  description:
+    "Tesseract OCR running in the browser with a slip-layout parser. No API key; the language data is downloaded once and cached.",
+
+  unavailableReason: () => null,
+
+  extract: async (image: Blob): Promise<ParsedData> => {
+    const worker = await createWorker("eng");
+    try {
+      const { data } = await worker.recognize(image);
+      // Slip contents stay out of the console outside development
+      if (import.meta.env.DEV) console.log("OCR Text:", data.text);
+      return parseSlipText(data.text);
+    } finally {
+      await worker.terminate();
+    }
+  },
+};
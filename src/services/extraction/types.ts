@@ -0,0 +1,17 @@
+import type { ParsedData } from "../receiptService";
+
+export type ExtractorId = "gemini" | "tesseract" | "mock";
+
+/**
+ * Turns a compressed slip image into field values for the upload preview.
+ * Implementations return whatever they could read; missing fields are left
+ * for the user to fill in.
+ */
+export interface ReceiptExtractor {
+  id: ExtractorId;
+  label: string;
+  description: string;
+  // Why the extractor can't run here (e.g. missing API key), or null if it can
+  unavailableReason: () => string | null;
+  extract: (image: Blob) => Promise<ParsedData>;
+}
@@ -0,0 +1,121 @@
+import { supabase } from "../lib/supabase";
+import type { Animal } from "./animalService";
+
+// See supabase_health_records_migration.sql
+export type HealthKind = "treatment" | "vaccination" | "deworming";
+
+export const HEALTH_KIND_LABELS: Record<HealthKind, string> = {
+  treatment: "Treatment",
+  vaccination: "Vaccination",
+  deworming: "Deworming",
+};
+
+export interface HealthRecord {
+  id: string;
+  user_id: string;
+  animal_id: string;
+  // Joined from animals for display
+  animal: Pick<Animal, "id" | "tag" | "name">;
+  kind: HealthKind;
+  date: string; // YYYY-MM-DD
+  drug: string;
+  dose: string | null;
+  // Days after the treatment that the animal's milk must be kept back
+  withdrawal_days: number;
+  notes: string | null;
+  created_at?: string;
+}
+
+export type HealthRecordInput = Pick<
+  HealthRecord,
+  "animal_id" | "kind" | "date" | "drug" | "dose" | "withdrawal_days" | "notes"
+>;
+
+const SELECT_WITH_ANIMAL = "*, animal:animals(id, tag, name)";
+
+const toRow = (input: HealthRecordInput) => ({
+  ...input,
+  drug: input.drug.trim(),
+  dose: input.dose?.trim() || null,
+  notes: input.notes?.trim() || null,
+});
+
+export const getUserHealthRecords = async (
+  userId: string,
+  animalId?: string
+): Promise<HealthRecord[]> => {
+  try {
+    let request = supabase
+      .from("health_records")
+      .select(SELECT_WITH_ANIMAL)
+      .eq("user_id", userId);
+
+    if (animalId) request = request.eq("animal_id", animalId);
+
+    const { data, error } = await request
+      .order("date", { ascending: false })
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching health records:", error);
+    throw error;
+  }
+};
+
+export const saveHealthRecord = async (
+  userId: string,
+  input: HealthRecordInput
+): Promise<HealthRecord> => {
+  try {
+    const { data, error } = await supabase
+      .from("health_records")
+      .insert([{ user_id: userId, ...toRow(input) }])
+      .select(SELECT_WITH_ANIMAL)
+      .single();
+
+    if (error) throw error;
+
+    return data;
+  } catch (error) {
+    console.error("Error saving health record:", error);
+    throw error;
+  }
+};
+
+export const updateHealthRecord = async (
+  id: string,
+  input: HealthRecordInput
+): Promise<HealthRecord> => {
+  try {
+    const { data, error } = await supabase
+      .from("health_records")
+      .update(toRow(input))
+      .eq("id", id)
+      .select(SELECT_WITH_ANIMAL)
+      .single();
+
+    if (error) throw error;
+
+    return data;
+  } catch (error) {
+    console.error("Error updating health record:", error);
+    throw error;
+  }
+};
+
+export const deleteHealthRecord = async (id: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from("health_records")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error deleting health record:", error);
+    throw error;
+  }
+};
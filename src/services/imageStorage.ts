@@ -0,0 +1,49 @@
+import { supabase } from "../lib/supabase";
+
+// Slip images, animal photos and expense bills share one public bucket; the
+// latter two live under animals/ and expenses/ and follow the same storage policies
+const BUCKET = "receipts";
+
+// Public URLs look like .../storage/v1/object/public/receipts/<path>
+const getStoragePath = (publicUrl: string): string | null => {
+  const marker = `/object/public/${BUCKET}/`;
+  const index = publicUrl.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(publicUrl.slice(index + marker.length));
+};
+
+/**
+ * Uploads an image and returns its public URL. With allowExisting, an image
+ * already at the path (from an earlier attempt of the same save) is reused
+ * instead of failing.
+ */
+export const uploadImage = async (
+  path: string,
+  imageBlob: Blob,
+  allowExisting = false
+): Promise<string> => {
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, imageBlob, {
+      contentType: "image/jpeg",
+      cacheControl: "3600",
+    });
+
+  const alreadyUploaded =
+    allowExisting && uploadError && /exists|duplicate/i.test(uploadError.message);
+  if (uploadError && !alreadyUploaded) throw uploadError;
+
+  const { data: { publicUrl } } = supabase.storage
+    .from(BUCKET)
+    .getPublicUrl(path);
+
+  return publicUrl;
+};
+
+export const removeImage = async (imageUrl: string | null) => {
+  const imagePath = imageUrl ? getStoragePath(imageUrl) : null;
+  if (!imagePath) return;
+
+  const { error } = await supabase.storage.from(BUCKET).remove([imagePath]);
+  // The row change already succeeded; an orphaned image is not worth failing for
+  if (error) console.error("Error removing image:", error);
+};
@@ -0,0 +1,98 @@
+import { fetchAllRows, supabase } from "../lib/supabase";
+import type { Shift } from "./receiptService";
+
+// One animal's yield at one milking (see supabase_milkings_migration.sql)
+export interface Milking {
+  id?: string;
+  user_id: string;
+  animal_id: string;
+  date: string; // YYYY-MM-DD
+  shift: Shift;
+  litres: number;
+  fat: number | null;
+  created_at?: string;
+}
+
+export type MilkingEntry = Pick<Milking, "animal_id" | "litres" | "fat">;
+
+export interface MilkingQuery {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  animalId?: string;
+}
+
+// Postgres numerics can come back as strings; the app works with numbers
+const fromRow = (row: Milking): Milking => ({
+  ...row,
+  litres: Number(row.litres),
+  fat: row.fat === null ? null : Number(row.fat),
+});
+
+// Paged like receipts; a herd's daily entries pass the row limit within weeks
+export const getMilkings = async (
+  userId: string,
+  query: MilkingQuery = {}
+): Promise<Milking[]> => {
+  try {
+    const rows = await fetchAllRows<Milking>((from, to) => {
+      let request = supabase
+        .from("milkings")
+        .select("*")
+        .eq("user_id", userId);
+
+      if (query.from) request = request.gte("date", query.from);
+      if (query.to) request = request.lte("date", query.to);
+      if (query.animalId) request = request.eq("animal_id", query.animalId);
+
+      return request.order("date", { ascending: true }).order("id").range(from, to);
+    });
+
+    return rows.map(fromRow);
+  } catch (error) {
+    console.error("Error fetching milkings:", error);
+    throw error;
+  }
+};
+
+/**
+ * Saves one milking for the herd: entries are upserted per animal, and
+ * animals listed in `cleared` lose any entry they had for that milking.
+ */
+export const saveHerdMilking = async (
+  userId: string,
+  date: string,
+  shift: Shift,
+  entries: MilkingEntry[],
+  cleared: string[]
+): Promise<Milking[]> => {
+  try {
+    if (cleared.length > 0) {
+      const { error } = await supabase
+        .from("milkings")
+        .delete()
+        .eq("user_id", userId)
+        .eq("date", date)
+        .eq("shift", shift)
+        .in("animal_id", cleared);
+
+      if (error) throw error;
+    }
+
+    if (entries.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from("milkings")
+      .upsert(
+        entries.map((entry) => ({ user_id: userId, date, shift, ...entry })),
+        { onConflict: "animal_id,date,shift" }
+      )
+      .select();
+
+    if (error) throw error;
+
+    return (data || []).map(fromRow);
+  } catch (error) {
+    console.error("Error saving milkings:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,215 @@
+import { idbDelete, idbGet, idbGetAll, idbPut, createId } from "../lib/idb";
+import { isValid } from "date-fns";
+import { parseNumber } from "../lib/numbers";
+import { parsedDataToReceipt, saveReceipt, type ParsedData, type ReceiptInput } from "./receiptService";
+
+const STORE = "outbox";
+
+export type OutboxStatus = "pending" | "synced" | "failed";
+
+export interface OutboxEntry {
+  clientId: string;
+  userId: string;
+  receiptData: ReceiptInput;
+  imageBlob?: Blob;
+  status: OutboxStatus;
+  attempts: number;
+  error?: string;
+  receiptId?: string;
+  queuedAt: string;
+  syncedAt?: string;
+}
+
+// Entries queued before receipts were typed hold every value as text
+interface LegacyReceiptData {
+  date: string;
+  quantity: string;
+  fat: string;
+  clr: string;
+  fat_kg?: string;
+  snf_kg?: string;
+  base_rate: string;
+  rate: string;
+  amount: string;
+}
+
+type StoredEntry = Omit<OutboxEntry, "receiptData"> & {
+  receiptData: ReceiptInput | LegacyReceiptData;
+};
+
+const fromStored = (entry: StoredEntry): OutboxEntry => {
+  if (entry.receiptData.date instanceof Date) return entry as OutboxEntry;
+
+  const legacy = entry.receiptData as LegacyReceiptData;
+  const parsed: ParsedData = {
+    rawText: "",
+    date: legacy.date,
+    quantity: legacy.quantity,
+    fat: legacy.fat,
+    clr: legacy.clr,
+    fatKg: legacy.fat_kg,
+    snfKg: legacy.snf_kg,
+    baseRate: legacy.base_rate,
+    rate: legacy.rate,
+    amount: legacy.amount,
+  };
+  try {
+    return { ...entry, receiptData: parsedDataToReceipt(parsed) };
+  } catch (error) {
+    // Kept so the user can see what it was; syncOutbox skips it as it can never save
+    return {
+      ...entry,
+      status: "failed",
+      error: `Couldn't read this saved slip (${error instanceof Error ? error.message : String(error)}). Remove it and enter it again.`,
+      receiptData: {
+        date: new Date(NaN),
+        shift: null,
+        quantity: parseNumber(legacy.quantity) ?? 0,
+        fat: null,
+        clr: null,
+        fat_kg: null,
+        snf_kg: null,
+        base_rate: null,
+        rate: null,
+        amount: parseNumber(legacy.amount) ?? 0,
+        image_url: "",
+        entry_type: "camera",
+      },
+    };
+  }
+};
+
+const readEntries = async (): Promise<OutboxEntry[]> =>
+  (await idbGetAll<StoredEntry>(STORE)).map(fromStored);
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+const listeners = new Set<OutboxListener>();
+let syncInFlight: Promise<void> | null = null;
+let syncAgain = false;
+
+const sortByQueuedAt = (entries: OutboxEntry[]) =>
+  [...entries].sort((a, b) => b.queuedAt.localeCompare(a.queuedAt));
+
+export const getOutboxEntries = async (userId: string): Promise<OutboxEntry[]> => {
+  const entries = await readEntries();
+  return sortByQueuedAt(entries.filter((entry) => entry.userId === userId));
+};
+
+export const getOutboxEntry = async (clientId: string): Promise<OutboxEntry | undefined> => {
+  const entry = await idbGet<StoredEntry>(STORE, clientId);
+  return entry && fromStored(entry);
+};
+
+const notify = async () => {
+  const entries = sortByQueuedAt(await readEntries());
+  listeners.forEach((listener) => listener(entries));
+};
+
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Persists a receipt (and its compressed image) on the device. The entry stays
+ * pending until syncOutbox manages to upload it.
+ */
+export const queueReceipt = async (
+  userId: string,
+  receiptData: OutboxEntry["receiptData"],
+  imageBlob?: Blob
+): Promise<OutboxEntry> => {
+  const entry: OutboxEntry = {
+    clientId: createId(),
+    userId,
+    receiptData,
+    imageBlob,
+    status: "pending",
+    attempts: 0,
+    queuedAt: new Date().toISOString(),
+  };
+
+  await idbPut(STORE, entry);
+  await notify();
+  return entry;
+};
+
+const syncEntry = async (entry: OutboxEntry): Promise<OutboxEntry> => {
+  try {
+    const receiptId = await saveReceipt(
+      entry.userId,
+      entry.receiptData,
+      entry.imageBlob,
+      entry.clientId
+    );
+
+    // The blob is no longer needed once the image is in Storage
+    return {
+      ...entry,
+      imageBlob: undefined,
+      status: "synced",
+      attempts: entry.attempts + 1,
+      error: undefined,
+      receiptId,
+      syncedAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    return {
+      ...entry,
+      status: "failed",
+      attempts: entry.attempts + 1,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+/**
+ * Replays every unsynced entry for the user. Calls made while a run is in
+ * progress join it and trigger one more pass, so an entry queued mid-sync is
+ * still picked up and no entry is ever uploaded by two runs at once.
+ */
+export const syncOutbox = (userId: string): Promise<void> => {
+  if (syncInFlight) {
+    syncAgain = true;
+    return syncInFlight;
+  }
+
+  syncInFlight = (async () => {
+    try {
+      do {
+        syncAgain = false;
+        if (!navigator.onLine) return;
+
+        const entries = await getOutboxEntries(userId);
+        for (const entry of entries) {
+          if (entry.status === "synced" || !isValid(entry.receiptData.date)) continue;
+          await idbPut(STORE, await syncEntry(entry));
+          await notify();
+        }
+      } while (syncAgain);
+    } catch (error) {
+      console.error("Error syncing outbox:", error);
+    } finally {
+      syncInFlight = null;
+    }
+  })();
+  return syncInFlight;
+};
+
+export const removeOutboxEntry = async (clientId: string): Promise<void> => {
+  await idbDelete(STORE, clientId);
+  await notify();
+};
+
+export const clearSyncedEntries = async (userId: string): Promise<void> => {
+  const entries = await getOutboxEntries(userId);
+  await Promise.all(
+    entries
+      .filter((entry) => entry.status === "synced")
+      .map((entry) => idbDelete(STORE, entry.clientId))
+  );
+  await notify();
+};
@@ -0,0 +1,79 @@
+import { supabase } from "../lib/supabase";
+
+// A credit from the dairy for one payment cycle (see supabase_payments_migration.sql)
+export interface Payment {
+  id?: string;
+  user_id: string;
+  period_start: string; // YYYY-MM-DD
+  period_end: string; // YYYY-MM-DD
+  paid_on: string | null; // YYYY-MM-DD
+  amount: number;
+  deductions: number;
+  reference: string | null;
+  notes: string | null;
+  created_at?: string;
+}
+
+export type PaymentInput = Omit<Payment, "id" | "user_id" | "created_at">;
+
+// Postgres numerics can come back as strings; the app works with numbers
+const fromRow = (row: Payment): Payment => ({
+  ...row,
+  amount: Number(row.amount),
+  deductions: Number(row.deductions ?? 0),
+});
+
+export const getUserPayments = async (userId: string): Promise<Payment[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("payments")
+      .select("*")
+      .eq("user_id", userId)
+      .order("period_start", { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(fromRow);
+  } catch (error) {
+    console.error("Error fetching payments:", error);
+    throw error;
+  }
+};
+
+export const savePayment = async (
+  userId: string,
+  payment: PaymentInput
+): Promise<Payment> => {
+  try {
+    const { data, error } = await supabase
+      .from("payments")
+      .insert([{ user_id: userId, ...payment }])
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return fromRow(data);
+  } catch (error) {
+    console.error("Error saving payment:", error);
+    throw error;
+  }
+};
+
+export const deletePayment = async (id: string): Promise<void> => {
+  try {
+    const { data, error } = await supabase
+      .from("payments")
+      .delete()
+      .eq("id", id)
+      .select("id");
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new Error("Only admins can delete payments");
+    }
+  } catch (error) {
+    console.error("Error deleting payment:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,72 @@
+import { supabase } from "../lib/supabase";
+import type { Role } from "../lib/permissions";
+
+export interface Profile {
+  id: string;
+  email: string;
+  full_name?: string | null;
+  phone?: string | null;
+  role: Role;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export const getProfile = async (userId: string): Promise<Profile | null> => {
+  try {
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("*")
+      .eq("id", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data;
+  } catch (error) {
+    console.error("Error fetching profile:", error);
+    throw error;
+  }
+};
+
+export const getAllProfiles = async (): Promise<Profile[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("*")
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching profiles:", error);
+    throw error;
+  }
+};
+
+/**
+ * Updates a profile. Other users' profiles can only be changed by an admin;
+ * RLS silently filters the row out otherwise, which is surfaced as an error.
+ */
+export const updateProfile = async (
+  id: string,
+  updates: Partial<Pick<Profile, "full_name" | "phone" | "role">>
+): Promise<Profile> => {
+  try {
+    const { data, error } = await supabase
+      .from("profiles")
+      .update(updates)
+      .eq("id", id)
+      .select();
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new Error("Only admins can update other users' profiles");
+    }
+
+    return data[0];
+  } catch (error) {
+    console.error("Error updating profile:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,77 @@
+import { supabase } from "../lib/supabase";
+
+export interface RateGrid {
+  fat: number[];
+  snf: number[];
+  // rates[i][j] is the rate per litre for fat[i] and snf[j]
+  rates: (number | null)[][];
+}
+
+export interface RateChart {
+  id?: string;
+  user_id: string;
+  name: string;
+  kind: "formula" | "grid";
+  effective_from: string; // YYYY-MM-DD
+  base_rate: number | null;
+  fat_factor: number | null;
+  snf_factor: number | null;
+  grid: RateGrid | null;
+  created_at?: string;
+}
+
+export type RateChartInput = Omit<RateChart, "id" | "user_id" | "created_at">;
+
+export const getRateCharts = async (): Promise<RateChart[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("rate_charts")
+      .select("*")
+      .order("effective_from", { ascending: false });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching rate charts:", error);
+    throw error;
+  }
+};
+
+export const saveRateChart = async (
+  userId: string,
+  chart: RateChartInput
+): Promise<RateChart> => {
+  try {
+    const { data, error } = await supabase
+      .from("rate_charts")
+      .insert([{ user_id: userId, ...chart }])
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return data;
+  } catch (error) {
+    console.error("Error saving rate chart:", error);
+    throw error;
+  }
+};
+
+export const deleteRateChart = async (id: string): Promise<void> => {
+  try {
+    const { data, error } = await supabase
+      .from("rate_charts")
+      .delete()
+      .eq("id", id)
+      .select("id");
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new Error("Only admins can delete rate charts");
+    }
+  } catch (error) {
+    console.error("Error deleting rate chart:", error);
+    throw error;
+  }
+};
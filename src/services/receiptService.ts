@@ -1,48 +1,298 @@
-import { supabase } from "../lib/supabase";
+import { format, isValid, parse, startOfMonth } from "date-fns";
+import { fetchAllRows, supabase } from "../lib/supabase";
+import { uploadImage, removeImage } from "./imageStorage";
+import { clrFromSnf, snfFromClr } from "../lib/milkComposition";
+import { parseNumber } from "../lib/numbers";
+import type { ReceiptFilter } from "../lib/receiptSearch";
 
+export type Shift = "morning" | "evening";
+
+// How a receipt got into the app (see supabase_entry_type_migration.sql)
+export type EntryType = "camera" | "manual" | "import";
+
+// Shape of a row in the receipts table (see supabase_receipts_numeric_migration.sql)
+interface ReceiptRow {
+  id: string;
+  user_id: string;
+  date: string; // YYYY-MM-DD
+  shift: Shift | null;
+  quantity: number;
+  fat: number | null;
+  clr: number | null;
+  fat_kg: number | null;
+  snf_kg: number | null;
+  base_rate: number | null;
+  rate: number | null;
+  amount: number;
+  image_url: string;
+  entry_type: EntryType;
+  client_id: string | null;
+  created_at: string;
+}
+
+// A receipt as used throughout the app. Components work with these typed
+// values and never parse the stored strings themselves.
 export interface Receipt {
   id?: string;
   user_id: string;
-  date: string;
-  quantity: string;
-  fat: string;
-  clr: string;
-  fat_kg?: string;
-  snf_kg?: string;
-  base_rate: string;
-  rate: string;
-  amount: string;
+  date: Date;
+  shift: Shift | null;
+  quantity: number;
+  fat: number | null;
+  clr: number | null;
+  fat_kg: number | null;
+  snf_kg: number | null;
+  base_rate: number | null;
+  rate: number | null;
+  amount: number;
   image_url: string;
+  entry_type: EntryType;
+  client_id?: string;
   created_at?: string;
 }
 
+export type ReceiptInput = Omit<Receipt, "id" | "user_id" | "created_at" | "client_id">;
+
+// Field values as shown and edited in the upload preview and edit dialog
+export interface ParsedData {
+  rawText: string;
+  date?: string;
+  shift?: string;
+  quantity?: string;
+  fat?: string;
+  clr?: string;
+  fatKg?: string;
+  snfKg?: string;
+  baseRate?: string;
+  rate?: string;
+  amount?: string;
+  // 0–1 per field, when the extractor reports how sure it is
+  confidence?: Partial<Record<ReceiptField, number>>;
+}
+
+export type ReceiptField = Exclude<keyof ParsedData, "rawText" | "confidence">;
+
+export const RECEIPT_FIELD_LABELS: Record<ReceiptField, string> = {
+  date: "Date",
+  shift: "Shift",
+  quantity: "Quantity",
+  fat: "Fat %",
+  clr: "CLR",
+  fatKg: "Fat Kg",
+  snfKg: "SNF Kg",
+  baseRate: "Base Rate",
+  rate: "Avg. Rate",
+  amount: "Total Amount",
+};
+
+export const DISPLAY_DATE_FORMAT = "dd/MM/yyyy";
+const DB_DATE_FORMAT = "yyyy-MM-dd";
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+/** Parses a DD/MM/YYYY (or YYYY-MM-DD) string; returns null if invalid. */
+export const parseReceiptDate = (value?: string): Date | null => {
+  if (!value) return null;
+  const trimmed = value.trim();
+  const date = parse(
+    trimmed,
+    trimmed.includes("-") ? DB_DATE_FORMAT : DISPLAY_DATE_FORMAT,
+    new Date()
+  );
+  return isValid(date) ? date : null;
+};
+
+/** Normalises how slips and people write the shift: M/E, AM/PM, morning/evening. */
+export const parseShift = (value?: string | null): Shift | null => {
+  const normalised = value?.trim().toLowerCase();
+  if (!normalised) return null;
+  if (/^(m|am|morn(ing)?|सुबह)$/.test(normalised)) return "morning";
+  if (/^(e|pm|eve(ning)?|शाम)$/.test(normalised)) return "evening";
+  return null;
+};
+
+export const SHIFT_LABELS: Record<Shift, string> = {
+  morning: "Morning",
+  evening: "Evening",
+};
+
+export const ENTRY_TYPE_LABELS: Record<EntryType, string> = {
+  camera: "Camera Upload",
+  manual: "Manual Entry",
+  import: "Imported",
+};
+
+export const formatReceiptDate = (date: Date): string =>
+  format(date, DISPLAY_DATE_FORMAT);
+
+const fromRow = (row: ReceiptRow): Receipt => ({
+  id: row.id,
+  user_id: row.user_id,
+  date: parse(row.date, DB_DATE_FORMAT, new Date()),
+  shift: parseShift(row.shift),
+  quantity: toNumber(row.quantity) ?? 0,
+  fat: toNumber(row.fat),
+  clr: toNumber(row.clr),
+  fat_kg: toNumber(row.fat_kg),
+  snf_kg: toNumber(row.snf_kg),
+  base_rate: toNumber(row.base_rate),
+  rate: toNumber(row.rate),
+  amount: toNumber(row.amount) ?? 0,
+  image_url: row.image_url,
+  entry_type: row.entry_type,
+  client_id: row.client_id ?? undefined,
+  created_at: row.created_at,
+});
+
+// The entry type is set when a receipt is created and not changed by edits
+const toRow = (receipt: Omit<ReceiptInput, "image_url" | "entry_type">) => ({
+  date: format(receipt.date, DB_DATE_FORMAT),
+  shift: receipt.shift,
+  quantity: receipt.quantity,
+  fat: receipt.fat,
+  clr: receipt.clr,
+  fat_kg: receipt.fat_kg,
+  snf_kg: receipt.snf_kg,
+  base_rate: receipt.base_rate,
+  rate: receipt.rate,
+  amount: receipt.amount,
+});
+
+/**
+ * Converts preview/form values into a typed receipt. Throws if a field the
+ * table requires (date, quantity, amount) is missing or unreadable.
+ */
+export const parsedDataToReceipt = (
+  data: ParsedData,
+  entryType: EntryType = "camera"
+): ReceiptInput => {
+  const date = parseReceiptDate(data.date);
+  const quantity = parseNumber(data.quantity);
+  const amount = parseNumber(data.amount);
+
+  const missing = [
+    !date && "date",
+    quantity === null && "quantity",
+    amount === null && "amount",
+  ].filter(Boolean);
+  if (!date || quantity === null || amount === null) {
+    throw new Error(`Please enter a valid ${missing.join(", ")}`);
+  }
+
+  return {
+    date,
+    shift: parseShift(data.shift),
+    quantity,
+    fat: parseNumber(data.fat),
+    clr: parseNumber(data.clr),
+    fat_kg: parseNumber(data.fatKg),
+    snf_kg: parseNumber(data.snfKg),
+    base_rate: parseNumber(data.baseRate),
+    rate: parseNumber(data.rate),
+    amount,
+    image_url: "",
+    entry_type: entryType,
+  };
+};
+
+const toText = (value: number | null): string | undefined =>
+  value === null ? undefined : String(value);
+
+export const receiptToParsedData = (receipt: Receipt): ParsedData => ({
+  rawText: "",
+  date: formatReceiptDate(receipt.date),
+  shift: receipt.shift ?? undefined,
+  quantity: toText(receipt.quantity),
+  fat: toText(receipt.fat),
+  clr: toText(receipt.clr),
+  fatKg: toText(receipt.fat_kg),
+  snfKg: toText(receipt.snf_kg),
+  baseRate: toText(receipt.base_rate),
+  rate: toText(receipt.rate),
+  amount: toText(receipt.amount),
+});
+
+/**
+ * Applies the user's edits to extracted data. Confidence is kept only for
+ * values left as they were; a corrected value no longer needs checking.
+ */
+export const applyReceiptEdits = (
+  original: ParsedData | null,
+  edits: Partial<ParsedData>
+): ParsedData => ({
+  rawText: original?.rawText || "Manual edit",
+  date: edits.date || "",
+  shift: edits.shift,
+  quantity: edits.quantity || "",
+  fat: edits.fat || "",
+  clr: edits.clr || "",
+  fatKg: edits.fatKg,
+  snfKg: edits.snfKg,
+  baseRate: edits.baseRate,
+  rate: edits.rate || "",
+  amount: edits.amount || "",
+  confidence: Object.fromEntries(
+    Object.entries(original?.confidence ?? {}).filter(
+      ([field]) => edits[field as ReceiptField] === original?.[field as ReceiptField]
+    )
+  ),
+});
+
+// Manual entry asks for SNF % instead of CLR, so CLR is derived from it
+export const deriveClr = (fat?: string, snf?: string): string | undefined => {
+  const snfValue = parseNumber(snf);
+  if (snfValue === null) return undefined;
+  return clrFromSnf(snfValue, parseNumber(fat) ?? 0).toFixed(2);
+};
+
+/**
+ * SNF % of a receipt: from SNF kg when the slip shows it, otherwise derived
+ * from CLR and fat.
+ */
+export const getSnfPercent = (receipt: Receipt): number | null => {
+  if (receipt.snf_kg !== null && receipt.quantity > 0) {
+    return (receipt.snf_kg / receipt.quantity) * 100;
+  }
+  if (receipt.clr !== null && receipt.fat !== null) {
+    return snfFromClr(receipt.clr, receipt.fat);
+  }
+  return null;
+};
+
+// Postgres unique_violation, raised when a replayed insert hits client_id
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Uploads the image (if any) and inserts the receipt row.
+ *
+ * When a clientId is given the save is idempotent: the image path is derived
+ * from it and an existing row with the same client_id is returned instead of
+ * inserting a second one, so the offline outbox can safely retry.
+ */
 export const saveReceipt = async (
   userId: string,
-  receiptData: Omit<Receipt, "id" | "user_id" | "created_at">,
-  imageBlob?: Blob
+  receiptData: ReceiptInput,
+  imageBlob?: Blob,
+  clientId?: string
 ): Promise<string> => {
   try {
-    let publicUrl = '';
+    if (clientId) {
+      const existingId = await findReceiptIdByClientId(clientId);
+      if (existingId) return existingId;
+    }
 
     // Upload image to Supabase Storage if provided
-    if (imageBlob) {
-      const fileName = `${userId}/${Date.now()}.jpg`;
-      const { error: uploadError } = await supabase.storage
-        .from("receipts")
-        .upload(fileName, imageBlob, {
-          contentType: "image/jpeg",
-          cacheControl: "3600",
-        });
-
-      if (uploadError) throw uploadError;
-
-      // Get public URL
-      const { data: { publicUrl: url } } = supabase.storage
-        .from("receipts")
-        .getPublicUrl(fileName);
-
-      publicUrl = url;
-    }
+    const publicUrl = imageBlob
+      ? await uploadImage(
+          `${userId}/${clientId ?? Date.now()}.jpg`,
+          imageBlob,
+          !!clientId
+        )
+      : '';
 
     // Save receipt data to Supabase database
     const { data, error } = await supabase
@@ -50,22 +300,22 @@ export const saveReceipt = async (
       .insert([
         {
           user_id: userId,
-          date: receiptData.date,
-          quantity: receiptData.quantity,
-          fat: receiptData.fat,
-          clr: receiptData.clr,
-          fat_kg: receiptData.fat_kg,
-          snf_kg: receiptData.snf_kg,
-          base_rate: receiptData.base_rate,
-          rate: receiptData.rate,
-          amount: receiptData.amount,
+          ...toRow(receiptData),
           image_url: publicUrl,
+          entry_type: receiptData.entry_type,
+          client_id: clientId,
         },
       ])
       .select()
       .single();
 
-    if (error) throw error;
+    if (error) {
+      if (clientId && error.code === UNIQUE_VIOLATION) {
+        const existingId = await findReceiptIdByClientId(clientId);
+        if (existingId) return existingId;
+      }
+      throw error;
+    }
 
     return data.id;
   } catch (error) {
@@ -74,19 +324,304 @@ export const saveReceipt = async (
   }
 };
 
-export const getUserReceipts = async (userId: string): Promise<Receipt[]> => {
+const findReceiptIdByClientId = async (
+  clientId: string
+): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from("receipts")
+    .select("id")
+    .eq("client_id", clientId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data?.id ?? null;
+};
+
+// Which receipts a listing covers: an inclusive date range (YYYY-MM-DD) and
+// the column filters parsed from the records search
+export interface ReceiptQuery {
+  from?: string;
+  to?: string;
+  filters?: ReceiptFilter[];
+}
+
+// The part of the query builder applyReceiptQuery needs; every step returns the same builder
+interface FilterableRequest<Q> {
+  filter(column: string, operator: string, value: unknown): Q;
+  or(filters: string): Q;
+}
+
+const applyReceiptQuery = <Q extends FilterableRequest<Q>>(request: Q, query: ReceiptQuery): Q => {
+  let result = request;
+  if (query.from) result = result.filter("date", "gte", query.from);
+  if (query.to) result = result.filter("date", "lte", query.to);
+  query.filters?.forEach((filter) => {
+    result =
+      "anyOf" in filter
+        ? result.or(filter.anyOf.map((column) => `${column}.eq.${filter.value}`).join(","))
+        : result.filter(filter.column, filter.operator, filter.value);
+  });
+  return result;
+};
+
+/**
+ * All of a user's receipts matching the query, newest first. Fetched in pages,
+ * so years of twice-daily slips aren't cut off at the API's row limit.
+ */
+export const getUserReceipts = async (
+  userId: string,
+  query: ReceiptQuery = {}
+): Promise<Receipt[]> => {
+  try {
+    const rows = await fetchAllRows<ReceiptRow>((from, to) =>
+      applyReceiptQuery(supabase.from("receipts").select("*").eq("user_id", userId), query)
+        .order("date", { ascending: false })
+        .order("created_at", { ascending: false })
+        .order("id")
+        .range(from, to)
+    );
+
+    return rows.map(fromRow);
+  } catch (error) {
+    console.error("Error fetching receipts:", error);
+    throw error;
+  }
+};
+
+export const countReceipts = async (userId: string, query: ReceiptQuery = {}): Promise<number> => {
   try {
+    const { count, error } = await applyReceiptQuery(
+      supabase.from("receipts").select("id", { count: "exact", head: true }).eq("user_id", userId),
+      query
+    );
+
+    if (error) throw error;
+
+    return count ?? 0;
+  } catch (error) {
+    console.error("Error counting receipts:", error);
+    throw error;
+  }
+};
+
+/**
+ * Loads the newest month with matching receipts before `before` (YYYY-MM-DD,
+ * exclusive; null for the latest). Records pages a month at a time so each
+ * month's totals are always complete. Returns null when nothing is left.
+ */
+export const getReceiptMonth = async (
+  userId: string,
+  before: string | null,
+  query: ReceiptQuery = {}
+): Promise<{ monthStart: string; receipts: Receipt[] } | null> => {
+  try {
+    let newest = applyReceiptQuery(
+      supabase.from("receipts").select("date").eq("user_id", userId),
+      query
+    );
+    if (before) newest = newest.filter("date", "lt", before);
+
+    const { data: latest, error: latestError } = await newest
+      .order("date", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) throw latestError;
+    if (!latest) return null;
+
+    const monthStart = format(
+      startOfMonth(parse(latest.date, DB_DATE_FORMAT, new Date())),
+      DB_DATE_FORMAT
+    );
+    const receipts = await getUserReceipts(userId, {
+      ...query,
+      from: query.from && query.from > monthStart ? query.from : monthStart,
+      to: latest.date,
+    });
+
+    return { monthStart, receipts };
+  } catch (error) {
+    console.error("Error fetching receipts:", error);
+    throw error;
+  }
+};
+
+// Rows per insert request; keeps each request well under the API's body limit
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * Inserts many receipts without images, as the importer does. Rows go in
+ * batches, so a failure part way leaves the earlier batches saved; the
+ * thrown error says how many made it in.
+ */
+export const bulkInsertReceipts = async (
+  userId: string,
+  receipts: ReceiptInput[]
+): Promise<number> => {
+  let inserted = 0;
+  try {
+    for (let i = 0; i < receipts.length; i += INSERT_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from("receipts")
+        .insert(
+          receipts.slice(i, i + INSERT_BATCH_SIZE).map((receipt) => ({
+            user_id: userId,
+            ...toRow(receipt),
+            image_url: receipt.image_url,
+            entry_type: receipt.entry_type,
+          }))
+        )
+        .select("id");
+
+      if (error) throw error;
+      inserted += data?.length ?? 0;
+    }
+
+    return inserted;
+  } catch (error) {
+    console.error("Error importing receipts:", error);
+    throw new Error(
+      `Imported ${inserted} of ${receipts.length} receipts before an error: ${
+        (error as { message?: string }).message ?? String(error)
+      }`
+    );
+  }
+};
+
+/**
+ * Updates the editable fields of a receipt. RLS only lets admins update, and
+ * a blocked update returns no rows rather than an error, so that case is
+ * surfaced explicitly.
+ */
+export const updateReceipt = async (
+  id: string,
+  receiptData: Omit<ReceiptInput, "image_url" | "entry_type">
+): Promise<Receipt> => {
+  try {
+    const { data, error } = await supabase
+      .from("receipts")
+      .update(toRow(receiptData))
+      .eq("id", id)
+      .select();
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new Error("Only admins can edit receipts");
+    }
+
+    return fromRow(data[0]);
+  } catch (error) {
+    console.error("Error updating receipt:", error);
+    throw error;
+  }
+};
+
+/**
+ * Overwrites an existing receipt with a new reading of the same slip, used
+ * when a save would otherwise duplicate a date and shift. The new image (if
+ * any) replaces the old one. Admin-only, like any other update.
+ */
+export const replaceReceipt = async (
+  existing: Receipt,
+  receiptData: ReceiptInput,
+  imageBlob?: Blob
+): Promise<Receipt> => {
+  try {
+    if (!existing.id) throw new Error("Cannot replace an unsaved receipt");
+
+    const imageUrl = imageBlob
+      ? await uploadImage(`${existing.user_id}/${Date.now()}.jpg`, imageBlob)
+      : existing.image_url;
+
     const { data, error } = await supabase
+      .from("receipts")
+      .update({ ...toRow(receiptData), image_url: imageUrl, entry_type: receiptData.entry_type })
+      .eq("id", existing.id)
+      .select();
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      if (imageBlob) await removeImage(imageUrl);
+      throw new Error("Only admins can replace receipts");
+    }
+
+    if (imageBlob) await removeImage(existing.image_url);
+
+    return fromRow(data[0]);
+  } catch (error) {
+    console.error("Error replacing receipt:", error);
+    throw error;
+  }
+};
+
+/**
+ * Deletes a receipt and then its stored image. The image is only removed once
+ * the row is gone, so a rejected delete never leaves a receipt without one.
+ */
+export const deleteReceipt = async (receipt: Receipt): Promise<void> => {
+  try {
+    if (!receipt.id) throw new Error("Cannot delete an unsaved receipt");
+
+    const { data, error } = await supabase
+      .from("receipts")
+      .delete()
+      .eq("id", receipt.id)
+      .select("id");
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new Error("Only admins can delete receipts");
+    }
+
+    await removeImage(receipt.image_url);
+  } catch (error) {
+    console.error("Error deleting receipt:", error);
+    throw error;
+  }
+};
+
+// Receipt count per uploader, used on the admin screen. One count query per
+// user, as fetching the rows to count them stops at the 1000-row limit.
+export const getReceiptCountsByUser = async (
+  userIds: string[]
+): Promise<Record<string, number>> => {
+  try {
+    const counts = await Promise.all(userIds.map((userId) => countReceipts(userId)));
+    return Object.fromEntries(userIds.map((userId, i) => [userId, counts[i]]));
+  } catch (error) {
+    console.error("Error counting receipts:", error);
+    throw error;
+  }
+};
+
+/**
+ * Finds receipts already saved for the same date and shift. A receipt without
+ * a shift conflicts with anything on that date, since it can't be told apart.
+ */
+export const findConflictingReceipts = async (
+  userId: string,
+  date: Date,
+  shift: Shift | null
+): Promise<Receipt[]> => {
+  try {
+    let query = supabase
       .from("receipts")
       .select("*")
       .eq("user_id", userId)
-      .order("created_at", { ascending: false });
+      .eq("date", format(date, DB_DATE_FORMAT));
+
+    if (shift) {
+      query = query.or(`shift.eq.${shift},shift.is.null`);
+    }
+
+    const { data, error } = await query;
 
     if (error) throw error;
 
-    return data || [];
+    return (data || []).map(fromRow);
   } catch (error) {
-    console.error("Error fetching receipts:", error);
+    console.error("Error checking for duplicate receipts:", error);
     throw error;
   }
 };
@@ -0,0 +1,194 @@
+import { addDays, format } from "date-fns";
+import { idbClear, idbDelete, idbGetAll, idbPut } from "../lib/idb";
+import { describeReminder, type Reminder } from "../lib/reminders";
+
+const STORE = "reminders";
+
+// Shared with the service worker in public/reminders-sw.js
+const SYNC_TAG = "milktrack-reminders";
+const UPDATED_MESSAGE = "reminders-updated";
+
+// How far ahead the in-app task list looks
+const UPCOMING_DAYS = 7;
+// Background checks are a hint to the browser; Chrome runs them at most this often
+const CHECK_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+export interface StoredReminder extends Reminder {
+  userId: string;
+  // Stored with the reminder so the service worker can show it on its own
+  title: string;
+  body: string;
+  done: boolean;
+  snoozedUntil: string | null; // YYYY-MM-DD
+  notifiedOn: string | null; // YYYY-MM-DD
+}
+
+// Notification actions and Periodic Background Sync are missing from the DOM typings
+interface ReminderNotificationOptions extends NotificationOptions {
+  actions: { action: string; title: string }[];
+}
+
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+  periodicSync?: {
+    register(tag: string, options: { minInterval: number }): Promise<void>;
+  };
+}
+
+type ReminderListener = () => void;
+
+const listeners = new Set<ReminderListener>();
+
+const toDay = (date: Date) => format(date, "yyyy-MM-dd");
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const handleWorkerMessage = (event: MessageEvent) => {
+  if (event.data?.type === UPDATED_MESSAGE) notify();
+};
+
+/** Listens for reminder changes, including snooze/done tapped on a notification. */
+export const subscribeToReminders = (listener: ReminderListener): (() => void) => {
+  if (listeners.size === 0 && "serviceWorker" in navigator) {
+    navigator.serviceWorker.addEventListener("message", handleWorkerMessage);
+  }
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && "serviceWorker" in navigator) {
+      navigator.serviceWorker.removeEventListener("message", handleWorkerMessage);
+    }
+  };
+};
+
+// Not done, within its window and not snoozed past the day
+export const isReminderDue = (reminder: StoredReminder, today: Date): boolean => {
+  const day = toDay(today);
+  return (
+    !reminder.done &&
+    reminder.start <= day &&
+    reminder.end >= day &&
+    (!reminder.snoozedUntil || reminder.snoozedUntil <= day)
+  );
+};
+
+const getStoredReminders = async (userId: string): Promise<StoredReminder[]> => {
+  const reminders = await idbGetAll<StoredReminder>(STORE);
+  return reminders.filter((reminder) => reminder.userId === userId);
+};
+
+/**
+ * Replaces the user's stored reminders with the current set, keeping the
+ * snooze/done state of those that are still called for.
+ */
+export const syncReminders = async (userId: string, reminders: Reminder[]): Promise<void> => {
+  const stored = new Map((await getStoredReminders(userId)).map((r) => [r.id, r]));
+
+  await Promise.all(
+    reminders.map((reminder) => {
+      const existing = stored.get(reminder.id);
+      stored.delete(reminder.id);
+      return idbPut<StoredReminder>(STORE, {
+        ...reminder,
+        ...describeReminder(reminder),
+        userId,
+        done: existing?.done ?? false,
+        snoozedUntil: existing?.snoozedUntil ?? null,
+        notifiedOn: existing?.notifiedOn ?? null,
+      });
+    })
+  );
+  // Whatever is left no longer applies (outcome recorded or record deleted)
+  await Promise.all([...stored.keys()].map((id) => idbDelete(STORE, id)));
+  notify();
+};
+
+/**
+ * Removes every stored reminder, on sign out. The service worker can't tell
+ * who is signed in, so it must not find another user's reminders to show.
+ */
+export const clearReminders = async (): Promise<void> => {
+  await idbClear(STORE);
+  notify();
+};
+
+/** Reminders open now or starting within the week, soonest first. */
+export const getUpcomingReminders = async (
+  userId: string,
+  today: Date
+): Promise<StoredReminder[]> => {
+  const day = toDay(today);
+  const horizon = toDay(addDays(today, UPCOMING_DAYS));
+  const reminders = await getStoredReminders(userId);
+  return reminders
+    .filter((r) => !r.done && r.end >= day && r.start <= horizon)
+    .sort((a, b) => a.start.localeCompare(b.start) || a.animalTag.localeCompare(b.animalTag));
+};
+
+const updateReminder = async (
+  reminder: StoredReminder,
+  updates: Partial<StoredReminder>
+): Promise<void> => {
+  await idbPut<StoredReminder>(STORE, { ...reminder, ...updates });
+  notify();
+};
+
+export const completeReminder = (reminder: StoredReminder): Promise<void> =>
+  updateReminder(reminder, { done: true });
+
+export const snoozeReminder = (reminder: StoredReminder, today: Date): Promise<void> =>
+  updateReminder(reminder, { snoozedUntil: toDay(addDays(today, 1)) });
+
+export const getNotificationPermission = (): NotificationPermission | "unsupported" =>
+  "Notification" in window && "serviceWorker" in navigator ? Notification.permission : "unsupported";
+
+/**
+ * Asks for permission to notify and, where the browser supports it, for
+ * periodic background checks so reminders show without opening the app.
+ */
+export const enableReminderNotifications = async (): Promise<NotificationPermission> => {
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") return permission;
+
+  try {
+    const registration = (await navigator.serviceWorker.getRegistration()) as
+      | PeriodicSyncRegistration
+      | undefined;
+    await registration?.periodicSync?.register(SYNC_TAG, { minInterval: CHECK_INTERVAL_MS });
+  } catch (error) {
+    // Only installed PWAs get periodic sync; reminders still show when the app opens
+    console.warn("Periodic reminder checks unavailable:", error);
+  }
+  return permission;
+};
+
+/** Shows a notification for each due reminder not already shown today. */
+export const showDueReminders = async (userId: string, today: Date): Promise<void> => {
+  if (getNotificationPermission() !== "granted") return;
+
+  try {
+    // Undefined in development, where the service worker isn't registered
+    const registration = await navigator.serviceWorker.getRegistration();
+    if (!registration) return;
+
+    const day = toDay(today);
+    const due = (await getStoredReminders(userId)).filter(
+      (r) => isReminderDue(r, today) && r.notifiedOn !== day
+    );
+    for (const reminder of due) {
+      const options: ReminderNotificationOptions = {
+        body: reminder.body,
+        tag: reminder.id,
+        icon: "/pwa-192x192.png",
+        data: { id: reminder.id },
+        actions: [
+          { action: "snooze", title: "Snooze 1 day" },
+          { action: "done", title: "Done" },
+        ],
+      };
+      await registration.showNotification(reminder.title, options);
+      await idbPut<StoredReminder>(STORE, { ...reminder, notifiedOn: day });
+    }
+  } catch (error) {
+    console.error("Error showing reminders:", error);
+  }
+};
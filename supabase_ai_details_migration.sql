@@ -0,0 +1,12 @@
+-- Insemination details: the bull and semen straw used, who did the AI, what
+-- it cost and any remarks. "bull" is the name or code conception rates are
+-- grouped by.
+ALTER TABLE ai_records
+  ADD COLUMN IF NOT EXISTS bull TEXT,
+  ADD COLUMN IF NOT EXISTS bull_breed TEXT,
+  ADD COLUMN IF NOT EXISTS straw_id TEXT,
+  ADD COLUMN IF NOT EXISTS technician TEXT,
+  ADD COLUMN IF NOT EXISTS cost NUMERIC(10, 2) CHECK (cost >= 0),
+  ADD COLUMN IF NOT EXISTS remarks TEXT;
+
+CREATE INDEX IF NOT EXISTS ai_records_user_bull_idx ON ai_records(user_id, bull);
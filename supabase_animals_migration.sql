@@ -0,0 +1,79 @@
+-- A registry of the herd. AI records point at an animal instead of carrying a
+-- free-text tag, so "A001" and "a001 " can no longer be two different cows.
+-- Tags are stored trimmed, with single spaces and in upper case.
+BEGIN;
+
+CREATE OR REPLACE FUNCTION pg_temp.normalise_tag(tag text)
+RETURNS text LANGUAGE sql IMMUTABLE AS $$
+  -- Records saved without a tag go to a placeholder animal to be sorted out later
+  SELECT coalesce(nullif(upper(regexp_replace(trim(tag), '\s+', ' ', 'g')), ''), 'UNKNOWN')
+$$;
+
+CREATE TABLE IF NOT EXISTS animals (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tag TEXT NOT NULL,
+  name TEXT,
+  breed TEXT,
+  date_of_birth DATE,
+  -- The dam is usually in the herd; the sire is usually an AI bull
+  dam_id UUID REFERENCES animals(id) ON DELETE SET NULL,
+  sire TEXT,
+  status TEXT NOT NULL DEFAULT 'milking'
+    CHECK (status IN ('milking', 'dry', 'heifer', 'sold', 'dead')),
+  photo_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS animals_user_tag_idx ON animals(user_id, tag);
+
+ALTER TABLE animals ENABLE ROW LEVEL SECURITY;
+
+-- Same ownership rules as ai_records
+CREATE POLICY "Users can view their own animals"
+  ON animals FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own animals"
+  ON animals FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own animals"
+  ON animals FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own animals"
+  ON animals FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_animals_updated_at
+  BEFORE UPDATE ON animals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- One animal per distinct normalised tag already used in AI records
+INSERT INTO animals (user_id, tag)
+SELECT DISTINCT user_id, pg_temp.normalise_tag(animal_tag)
+FROM ai_records
+ON CONFLICT (user_id, tag) DO NOTHING;
+
+-- Deleting an animal with AI records is refused; mark it sold or dead instead
+ALTER TABLE ai_records
+  ADD COLUMN IF NOT EXISTS animal_id UUID REFERENCES animals(id) ON DELETE RESTRICT;
+
+UPDATE ai_records
+SET animal_id = animals.id
+FROM animals
+WHERE animals.user_id = ai_records.user_id
+  AND animals.tag = pg_temp.normalise_tag(ai_records.animal_tag)
+  AND ai_records.animal_id IS NULL;
+
+ALTER TABLE ai_records ALTER COLUMN animal_id SET NOT NULL;
+
+-- The old tag is kept for reference only; the app reads it from animals
+ALTER TABLE ai_records ALTER COLUMN animal_tag DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS ai_records_animal_id_idx ON ai_records(animal_id);
+
+COMMIT;
@@ -0,0 +1,13 @@
+-- Follow each insemination through to its outcome: return to heat, pregnancy
+-- diagnosis (PD) and calving. A repeat AI after a return to heat or a
+-- negative PD is a new row pointing back at the attempt it follows.
+ALTER TABLE ai_records
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'inseminated'
+    CHECK (status IN ('inseminated', 'returned', 'pregnant', 'empty', 'calved')),
+  ADD COLUMN IF NOT EXISTS heat_return_date DATE,
+  ADD COLUMN IF NOT EXISTS pd_date DATE,
+  ADD COLUMN IF NOT EXISTS pd_result TEXT CHECK (pd_result IN ('positive', 'negative')),
+  ADD COLUMN IF NOT EXISTS calving_date DATE,
+  ADD COLUMN IF NOT EXISTS repeat_of UUID REFERENCES ai_records(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS ai_records_user_status_idx ON ai_records(user_id, status);
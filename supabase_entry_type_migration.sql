@@ -0,0 +1,12 @@
+-- How each receipt was entered: photographed slip, typed in by hand, or
+-- imported from a spreadsheet or society statement. Replaces guessing from
+-- the image URL.
+ALTER TABLE receipts
+  ADD COLUMN IF NOT EXISTS entry_type TEXT NOT NULL DEFAULT 'camera'
+    CHECK (entry_type IN ('camera', 'manual', 'import'));
+
+-- Existing manual entries have no image (or a placeholder naming them manual)
+UPDATE receipts
+SET entry_type = 'manual'
+WHERE entry_type = 'camera'
+  AND (image_url IS NULL OR image_url = '' OR image_url ILIKE '%manual%');
@@ -0,0 +1,66 @@
+-- Farm expenses, the cost side of the monthly profit & loss. A recurring
+-- expense (wages, a monthly feed order) is one row repeated by the app from
+-- its date until recurs_until, or indefinitely while that is empty.
+CREATE TABLE IF NOT EXISTS expenses (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  category TEXT NOT NULL
+    CHECK (category IN ('feed', 'fodder', 'veterinary', 'ai', 'labour', 'other')),
+  amount NUMERIC NOT NULL CHECK (amount >= 0),
+  description TEXT,
+  -- Photo of the bill, in the receipts bucket under expenses/
+  image_url TEXT,
+  recurrence TEXT NOT NULL DEFAULT 'none' CHECK (recurrence IN ('none', 'weekly', 'monthly')),
+  recurs_until DATE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (recurs_until IS NULL OR recurs_until >= date)
+);
+
+CREATE INDEX IF NOT EXISTS expenses_user_date_idx ON expenses(user_id, date DESC);
+
+ALTER TABLE expenses ENABLE ROW LEVEL SECURITY;
+
+-- Like payments: everyone can read, admins and members record, only admins change
+CREATE POLICY "Everyone can view expenses"
+  ON expenses FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admin and Members can insert expenses"
+  ON expenses FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'member')
+    )
+  );
+
+CREATE POLICY "Admin can update expenses"
+  ON expenses FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admin can delete expenses"
+  ON expenses FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE TRIGGER expenses_updated_at
+  BEFORE UPDATE ON expenses
+  FOR EACH ROW EXECUTE PROCEDURE public.handle_updated_at();
@@ -0,0 +1,43 @@
+-- Treatments, vaccinations and deworming per animal. Milk from an animal on
+-- a drug with a withdrawal period must not go to the dairy until it has run
+-- out; the app works that window out from date + withdrawal_days.
+CREATE TABLE IF NOT EXISTS health_records (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  animal_id UUID NOT NULL REFERENCES animals(id) ON DELETE RESTRICT,
+  kind TEXT NOT NULL CHECK (kind IN ('treatment', 'vaccination', 'deworming')),
+  date DATE NOT NULL,
+  drug TEXT NOT NULL,
+  dose TEXT,
+  withdrawal_days INTEGER NOT NULL DEFAULT 0 CHECK (withdrawal_days >= 0),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS health_records_user_date_idx ON health_records(user_id, date DESC);
+CREATE INDEX IF NOT EXISTS health_records_animal_idx ON health_records(animal_id);
+
+ALTER TABLE health_records ENABLE ROW LEVEL SECURITY;
+
+-- Same ownership rules as animals
+CREATE POLICY "Users can view their own health records"
+  ON health_records FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own health records"
+  ON health_records FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own health records"
+  ON health_records FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own health records"
+  ON health_records FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_health_records_updated_at
+  BEFORE UPDATE ON health_records
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,34 @@
+-- Manual entry used to store CLR as SNF + 0.25 × fat, which is not a
+-- lactometer reading, and put the SNF % itself in snf_kg. The app now
+-- derives CLR with the ISI formula (CLR = 4 × (SNF − 0.25 × fat − 0.44)) and
+-- reads snf_kg as kilograms, so rows saved the old way show the wrong SNF.
+-- Recovers the SNF % they were entered with, then recomputes CLR and SNF kg
+-- from it. Rows saved with SNF left blank stored just 0.25 × fat; they get
+-- no CLR or SNF kg rather than a made-up one.
+--
+-- Old-style values sit around 9-12, while real CLR readings are 20 or more,
+-- so the range check picks out only unconverted rows and the script is safe
+-- to run more than once. Run after supabase_entry_type_migration.sql.
+BEGIN;
+
+UPDATE receipts
+SET
+  clr = CASE
+    WHEN abs(old.snf) < 0.01 THEN NULL
+    ELSE round(4 * (old.snf - 0.25 * old.fat - 0.44), 2)
+  END,
+  snf_kg = CASE
+    WHEN abs(old.snf) < 0.01 THEN NULL
+    ELSE round(receipts.quantity * old.snf / 100, 3)
+  END
+FROM (
+  -- A blank fat was saved as NULL and counted as 0 in the old formula
+  SELECT id, clr - 0.25 * coalesce(fat, 0) AS snf, coalesce(fat, 0) AS fat
+  FROM receipts
+  WHERE entry_type = 'manual'
+    AND clr IS NOT NULL
+    AND clr < 15
+) AS old
+WHERE receipts.id = old.id;
+
+COMMIT;
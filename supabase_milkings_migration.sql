@@ -0,0 +1,42 @@
+-- What each animal gave at each milking, recorded at home. Separate from
+-- receipts, which are what the dairy measured for the whole herd; comparing
+-- the two shows milk kept back or lost, and which cow is falling off.
+CREATE TABLE IF NOT EXISTS milkings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  animal_id UUID NOT NULL REFERENCES animals(id) ON DELETE RESTRICT,
+  date DATE NOT NULL,
+  shift TEXT NOT NULL CHECK (shift IN ('morning', 'evening')),
+  litres NUMERIC NOT NULL CHECK (litres >= 0),
+  fat NUMERIC,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- One entry per animal per milking, so re-saving the herd screen upserts
+  UNIQUE (animal_id, date, shift)
+);
+
+CREATE INDEX IF NOT EXISTS milkings_user_date_idx ON milkings(user_id, date DESC);
+
+ALTER TABLE milkings ENABLE ROW LEVEL SECURITY;
+
+-- Same ownership rules as animals
+CREATE POLICY "Users can view their own milkings"
+  ON milkings FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own milkings"
+  ON milkings FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own milkings"
+  ON milkings FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own milkings"
+  ON milkings FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_milkings_updated_at
+  BEFORE UPDATE ON milkings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,9 @@
+-- Idempotent receipt saves for the offline outbox.
+-- Every receipt queued on the device gets a client-generated UUID; the
+-- unique index makes a replayed insert fail instead of creating a duplicate.
+ALTER TABLE receipts
+  ADD COLUMN IF NOT EXISTS client_id UUID;
+
+CREATE UNIQUE INDEX IF NOT EXISTS receipts_client_id_idx
+  ON receipts(client_id)
+  WHERE client_id IS NOT NULL;
@@ -0,0 +1,65 @@
+-- Payments received from the dairy, one row per credit. A payment covers a
+-- cycle (10-day, fortnightly or monthly) given by its first and last day, and
+-- is reconciled in the app against the receipts dated inside it.
+CREATE TABLE IF NOT EXISTS payments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  paid_on DATE,
+  -- What reached the bank, and what the society kept back (feed, loans, fees)
+  amount NUMERIC NOT NULL,
+  deductions NUMERIC NOT NULL DEFAULT 0,
+  reference TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (period_end >= period_start)
+);
+
+CREATE INDEX IF NOT EXISTS payments_user_period_idx ON payments(user_id, period_start DESC);
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+-- Like receipts: everyone can read, admins and members record, only admins change
+CREATE POLICY "Everyone can view payments"
+  ON payments FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admin and Members can insert payments"
+  ON payments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'member')
+    )
+  );
+
+CREATE POLICY "Admin can update payments"
+  ON payments FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admin can delete payments"
+  ON payments FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE TRIGGER payments_updated_at
+  BEFORE UPDATE ON payments
+  FOR EACH ROW EXECUTE PROCEDURE public.handle_updated_at();
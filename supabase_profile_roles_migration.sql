@@ -0,0 +1,24 @@
+-- Stop non-admins from changing their own role.
+-- "Users can update own profile" covers the whole row, so without this a
+-- member could promote themselves to admin from the client. Updates run from
+-- the SQL editor (no auth.uid()) are still allowed, so the first admin can be
+-- set up as described in SUPABASE_SETUP.md.
+CREATE OR REPLACE FUNCTION public.prevent_role_self_escalation()
+RETURNS trigger AS $$
+BEGIN
+  IF new.role IS DISTINCT FROM old.role
+  AND auth.uid() IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER profiles_role_guard
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE PROCEDURE public.prevent_role_self_escalation();
@@ -0,0 +1,70 @@
+-- Rate charts used to check the rate the dairy paid on each receipt.
+-- A chart is either a formula or a two-axis fat × SNF grid, and applies to
+-- receipts dated on or after effective_from until the next chart starts.
+CREATE TABLE IF NOT EXISTS rate_charts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('formula', 'grid')),
+  effective_from DATE NOT NULL,
+  -- formula: rate per litre = base_rate × (fat% × fat_factor + SNF% × snf_factor)
+  -- a NULL base_rate means "use the base rate printed on the slip"
+  base_rate NUMERIC,
+  fat_factor NUMERIC,
+  snf_factor NUMERIC,
+  -- grid: { "fat": [...], "snf": [...], "rates": [[...], ...] } with one row per fat value
+  grid JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (
+    (kind = 'formula' AND fat_factor IS NOT NULL AND snf_factor IS NOT NULL)
+    OR (kind = 'grid' AND grid IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS rate_charts_effective_from_idx ON rate_charts(effective_from DESC);
+
+ALTER TABLE rate_charts ENABLE ROW LEVEL SECURITY;
+
+-- Like receipts: everyone can read, only admins manage charts
+CREATE POLICY "Everyone can view rate charts"
+  ON rate_charts FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admin can insert rate charts"
+  ON rate_charts FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admin can update rate charts"
+  ON rate_charts FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admin can delete rate charts"
+  ON rate_charts FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE TRIGGER rate_charts_updated_at
+  BEFORE UPDATE ON rate_charts
+  FOR EACH ROW EXECUTE PROCEDURE public.handle_updated_at();
@@ -0,0 +1,9 @@
+-- Morning/evening shift on receipts.
+-- Existing rows keep a NULL shift (unknown). One receipt per user, date and
+-- shift is the expected case, but the app lets the user keep both when two
+-- slips really exist, so this index is for lookups rather than a constraint.
+ALTER TABLE receipts
+  ADD COLUMN IF NOT EXISTS shift TEXT CHECK (shift IN ('morning', 'evening'));
+
+CREATE INDEX IF NOT EXISTS receipts_user_date_shift_idx
+  ON receipts(user_id, date, shift);
@@ -0,0 +1,47 @@
+-- Convert receipt values from text to numeric/date columns.
+-- Existing rows are backfilled by parsing the stored strings: numbers may
+-- carry stray characters read off the slip ("₹1,234.50", "4.2%") and dates
+-- are DD/MM/YYYY. Run inside a transaction; if any row can't be parsed the
+-- whole migration rolls back so the offending rows can be fixed first:
+--
+--   SELECT id, date FROM receipts
+--   WHERE date !~ '^\d{1,2}/\d{1,2}/\d{4}$' AND date !~ '^\d{4}-\d{2}-\d{2}$';
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION pg_temp.parse_receipt_number(value text)
+RETURNS numeric AS $$
+  SELECT NULLIF(regexp_replace(coalesce(value, ''), '[^0-9.-]', '', 'g'), '')::numeric;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION pg_temp.parse_receipt_date(value text)
+RETURNS date AS $$
+  SELECT CASE
+    WHEN trim(value) ~ '^\d{4}-\d{2}-\d{2}$' THEN trim(value)::date
+    WHEN trim(value) ~ '^\d{1,2}/\d{1,2}/\d{4}$' THEN to_date(trim(value), 'DD/MM/YYYY')
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Only date, quantity and amount are always present; the rest depends on
+-- what the slip shows (manual entries have no base rate, for example)
+ALTER TABLE receipts
+  ALTER COLUMN fat DROP NOT NULL,
+  ALTER COLUMN clr DROP NOT NULL,
+  ALTER COLUMN base_rate DROP NOT NULL,
+  ALTER COLUMN rate DROP NOT NULL;
+
+ALTER TABLE receipts
+  ALTER COLUMN date TYPE date USING pg_temp.parse_receipt_date(date),
+  ALTER COLUMN quantity TYPE numeric USING pg_temp.parse_receipt_number(quantity),
+  ALTER COLUMN fat TYPE numeric USING pg_temp.parse_receipt_number(fat),
+  ALTER COLUMN clr TYPE numeric USING pg_temp.parse_receipt_number(clr),
+  ALTER COLUMN fat_kg TYPE numeric USING pg_temp.parse_receipt_number(fat_kg),
+  ALTER COLUMN snf_kg TYPE numeric USING pg_temp.parse_receipt_number(snf_kg),
+  ALTER COLUMN base_rate TYPE numeric USING pg_temp.parse_receipt_number(base_rate),
+  ALTER COLUMN rate TYPE numeric USING pg_temp.parse_receipt_number(rate),
+  ALTER COLUMN amount TYPE numeric USING pg_temp.parse_receipt_number(amount);
+
+-- receipts_date_idx is rebuilt by the type change and now sorts chronologically
+CREATE INDEX IF NOT EXISTS receipts_user_id_date_idx ON receipts(user_id, date DESC);
+
+COMMIT;